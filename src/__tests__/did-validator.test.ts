@@ -0,0 +1,266 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import bs58 from 'bs58';
+import { ANPKeyGenerator } from '../anp-key-generator';
+import { DIDValidationCode, validateDIDDocument } from '../did-validator';
+
+const DID = 'did:wba:example.com:alice';
+
+describe('validateDIDDocument', () => {
+  let template: any;
+
+  // 每个用例使用独立副本：[0]为身份验证密钥，[1]为X25519密钥协商密钥，[2]为人类授权密钥
+  const createDocument = () => JSON.parse(JSON.stringify(template));
+
+  const issue = (code: DIDValidationCode, path: string) => expect.objectContaining({ code, path });
+
+  // Ed25519 Multibase公钥（0xed01前缀）转换为JWK
+  const toJwk = (multibase: string) => ({
+    kty: 'OKP',
+    crv: 'Ed25519',
+    x: Buffer.from(bs58.decode(multibase.slice(1)).slice(2)).toString('base64url')
+  });
+
+  beforeAll(async () => {
+    template = JSON.parse((await new ANPKeyGenerator('example.com', 'alice').generateKeyPair()).did_document);
+  });
+
+  it('生成的文档没有错误和警告', () => {
+    expect(validateDIDDocument(createDocument(), { did: DID })).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('文档不是对象时返回invalid_document', () => {
+    expect(validateDIDDocument([]).errors).toEqual([issue('invalid_document', '$')]);
+  });
+
+  describe('文档结构', () => {
+    it('@context缺失或第一项不是DID Core上下文', () => {
+      const missing = createDocument();
+      delete missing['@context'];
+      const wrongFirst = createDocument();
+      wrongFirst['@context'] = ['https://example.com/context', 42];
+
+      expect(validateDIDDocument(missing).errors).toContainEqual(issue('invalid_context', '$["@context"]'));
+      expect(validateDIDDocument(wrongFirst).errors).toEqual(expect.arrayContaining([
+        issue('invalid_context', '$["@context"][0]'),
+        issue('invalid_context', '$["@context"][1]')
+      ]));
+    });
+
+    it('文档id无效或与期望的DID不一致', () => {
+      const invalid = createDocument();
+      invalid.id = 'alice';
+
+      expect(validateDIDDocument(invalid).errors).toContainEqual(issue('invalid_id', '$.id'));
+      expect(validateDIDDocument(createDocument(), { did: 'did:wba:example.com:bob' }).errors)
+        .toContainEqual(issue('id_mismatch', '$.id'));
+    });
+
+    it('无法解析的DID方法只产生警告', () => {
+      const document = createDocument();
+      document.id = 'did:example:alice';
+
+      expect(validateDIDDocument(document).warnings).toContainEqual(issue('unsupported_did_method', '$.id'));
+    });
+
+    it('文档controller不是自身时产生警告，不是DID时报错', () => {
+      const other = createDocument();
+      other.controller = 'did:wba:example.com:bob';
+      const invalid = createDocument();
+      invalid.controller = ['bob'];
+
+      expect(validateDIDDocument(other).warnings).toContainEqual(issue('controller_mismatch', '$.controller'));
+      expect(validateDIDDocument(invalid).errors).toContainEqual(issue('invalid_id', '$.controller'));
+    });
+  });
+
+  describe('验证方法', () => {
+    it('验证方法id不是DID URL或属于其他DID', () => {
+      const document = createDocument();
+      document.verificationMethod[0].id = 'key-1';
+      document.verificationMethod[2].id = 'did:wba:example.com:bob#key-3';
+
+      const { errors } = validateDIDDocument(document);
+
+      expect(errors).toContainEqual(issue('invalid_id', '$.verificationMethod[0].id'));
+      expect(errors).toContainEqual(issue('id_mismatch', '$.verificationMethod[2].id'));
+    });
+
+    it('验证方法id重复', () => {
+      const document = createDocument();
+      document.verificationMethod.push({ ...document.verificationMethod[0] });
+
+      expect(validateDIDDocument(document).errors).toEqual([issue('duplicate_id', '$.verificationMethod[3]')]);
+    });
+
+    it('缺少type或公钥', () => {
+      const document = createDocument();
+      delete document.verificationMethod[0].type;
+      delete document.verificationMethod[2].publicKeyMultibase;
+
+      const { errors } = validateDIDDocument(document);
+
+      expect(errors).toContainEqual(issue('unsupported_key_type', '$.verificationMethod[0].type'));
+      expect(errors).toContainEqual(issue('invalid_key', '$.verificationMethod[2]'));
+    });
+
+    it('格式错误的Multibase公钥', () => {
+      const document = createDocument();
+      document.verificationMethod[0].publicKeyMultibase = 'abc';
+      document.verificationMethod[2].publicKeyMultibase = 'z111';
+
+      const { errors } = validateDIDDocument(document);
+
+      expect(errors).toContainEqual(issue('invalid_key', '$.verificationMethod[0].publicKeyMultibase'));
+      expect(errors).toContainEqual(issue('invalid_key', '$.verificationMethod[2].publicKeyMultibase'));
+    });
+
+    it('JWK公钥可以通过校验，格式错误或包含私钥参数d时报错', () => {
+      const valid = createDocument();
+      valid.verificationMethod[0].publicKeyJwk = toJwk(valid.verificationMethod[0].publicKeyMultibase);
+      delete valid.verificationMethod[0].publicKeyMultibase;
+
+      const malformed = createDocument();
+      malformed.verificationMethod[0].publicKeyJwk = { kty: 'OKP', crv: 'Ed25519', x: 'AAAA' };
+      delete malformed.verificationMethod[0].publicKeyMultibase;
+
+      const withPrivateKey = createDocument();
+      withPrivateKey.verificationMethod[0].publicKeyJwk = { ...toJwk(withPrivateKey.verificationMethod[0].publicKeyMultibase), d: 'secret' };
+      delete withPrivateKey.verificationMethod[0].publicKeyMultibase;
+
+      expect(validateDIDDocument(valid).valid).toBe(true);
+      expect(validateDIDDocument(malformed).errors).toContainEqual(issue('invalid_key', '$.verificationMethod[0].publicKeyJwk'));
+      expect(validateDIDDocument(withPrivateKey).errors).toContainEqual(issue('invalid_key', '$.verificationMethod[0].publicKeyJwk.d'));
+    });
+
+    it('同时包含JWK和Multibase时产生警告', () => {
+      const document = createDocument();
+      document.verificationMethod[0].publicKeyJwk = toJwk(document.verificationMethod[0].publicKeyMultibase);
+
+      const report = validateDIDDocument(document);
+
+      expect(report.valid).toBe(true);
+      expect(report.warnings).toContainEqual(issue('invalid_key', '$.verificationMethod[0]'));
+    });
+
+    it('已过期的密钥产生警告，expires无效时报错', () => {
+      const expired = createDocument();
+      expired.verificationMethod[0].expires = '2000-01-01T00:00:00Z';
+      const invalid = createDocument();
+      invalid.verificationMethod[0].expires = 'tomorrow';
+
+      const report = validateDIDDocument(expired);
+
+      expect(report.valid).toBe(true);
+      expect(report.warnings).toContainEqual(issue('expired_key', '$.verificationMethod[0].expires'));
+      expect(validateDIDDocument(invalid).errors).toEqual([issue('invalid_key', '$.verificationMethod[0].expires')]);
+    });
+  });
+
+  describe('验证关系', () => {
+    it('缺少authentication或为空', () => {
+      const missing = createDocument();
+      delete missing.authentication;
+      const empty = createDocument();
+      empty.authentication = [];
+
+      expect(validateDIDDocument(missing).errors).toEqual([issue('missing_authentication', '$.authentication')]);
+      expect(validateDIDDocument(empty).errors).toEqual([issue('missing_authentication', '$.authentication')]);
+    });
+
+    it('验证关系不是数组', () => {
+      const document = createDocument();
+      document.assertionMethod = document.assertionMethod[0];
+
+      expect(validateDIDDocument(document).errors).toEqual([issue('invalid_relationship', '$.assertionMethod')]);
+    });
+
+    it('引用不在verificationMethod中', () => {
+      const document = createDocument();
+      document.assertionMethod.push(`${DID}#missing`, '#also-missing');
+
+      expect(validateDIDDocument(document).errors).toEqual([
+        issue('unresolved_reference', '$.assertionMethod[1]'),
+        issue('unresolved_reference', '$.assertionMethod[2]')
+      ]);
+    });
+
+    it('相对片段引用可以解析', () => {
+      const document = createDocument();
+      document.authentication = [`#${document.verificationMethod[0].id.split('#')[1]}`];
+
+      expect(validateDIDDocument(document).valid).toBe(true);
+    });
+
+    it('内嵌方法与verificationMethod中同id的方法内容不同时视为重复', () => {
+      const document = createDocument();
+      document.keyAgreement[0].controller = 'did:wba:example.com:bob';
+
+      const report = validateDIDDocument(document);
+
+      expect(report.errors).toContainEqual(issue('duplicate_id', '$.keyAgreement[0]'));
+      expect(report.warnings).toContainEqual(issue('controller_mismatch', '$.keyAgreement[0].controller'));
+    });
+
+    it('keyAgreement只能使用X25519密钥，签名关系不能使用X25519密钥', () => {
+      const document = createDocument();
+      document.keyAgreement = [document.verificationMethod[0].id];
+      document.authentication.push(document.verificationMethod[1].id);
+
+      expect(validateDIDDocument(document).errors).toEqual([
+        issue('invalid_key_purpose', '$.authentication[1]'),
+        issue('invalid_key_purpose', '$.keyAgreement[0]')
+      ]);
+    });
+  });
+
+  describe('服务', () => {
+    it.each([
+      ['URL', 'https://example.com/ad.json'],
+      ['URL数组', ['https://example.com/a', 'https://example.com/b']],
+      ['映射', { primary: 'https://example.com/a', backup: ['https://example.com/b'] }]
+    ])('服务端点可以是%s', (_shape, serviceEndpoint) => {
+      const document = createDocument();
+      document.service[0].serviceEndpoint = serviceEndpoint;
+
+      expect(validateDIDDocument(document).valid).toBe(true);
+    });
+
+    it.each([
+      ['不是URL的字符串', 'not a url', '$.service[0].serviceEndpoint'],
+      ['空数组', [], '$.service[0].serviceEndpoint'],
+      ['数组中的无效条目', ['https://example.com/a', 'nope'], '$.service[0].serviceEndpoint[1]'],
+      ['映射中的无效条目', { primary: 42 }, '$.service[0].serviceEndpoint.primary'],
+      ['空映射', {}, '$.service[0].serviceEndpoint']
+    ])('服务端点为%s时报错', (_shape, serviceEndpoint, path) => {
+      const document = createDocument();
+      document.service[0].serviceEndpoint = serviceEndpoint;
+
+      expect(validateDIDDocument(document).errors).toEqual([issue('invalid_service_endpoint', path)]);
+    });
+
+    it('service不是数组、条目缺少id或type', () => {
+      const notArray = createDocument();
+      notArray.service = notArray.service[0];
+      const incomplete = createDocument();
+      incomplete.service = [null, { serviceEndpoint: 'https://example.com' }];
+
+      expect(validateDIDDocument(notArray).errors).toEqual([issue('invalid_service', '$.service')]);
+      expect(validateDIDDocument(incomplete).errors).toEqual([
+        issue('invalid_service', '$.service[0]'),
+        issue('invalid_service', '$.service[1].id'),
+        issue('invalid_service', '$.service[1].type')
+      ]);
+    });
+
+    it('service id不是DID URL时产生警告，与验证方法id重复时报错', () => {
+      const document = createDocument();
+      document.service.push({ id: 'agent', type: 'AgentService', serviceEndpoint: 'https://example.com' });
+      document.service.push({ id: document.verificationMethod[0].id, type: 'AgentService', serviceEndpoint: 'https://example.com' });
+
+      const report = validateDIDDocument(document);
+
+      expect(report.warnings).toContainEqual(issue('invalid_service', '$.service[1].id'));
+      expect(report.errors).toEqual([issue('duplicate_id', '$.service[2].id')]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import { AccessTokenIssuer, getAccessTokenExpiry, parseBearerToken } from './access-token';
+import { exportPrivateKey } from './key-format';
+import { InMemorySigner, Signer } from './signer';
+
+const generator = new ANPKeyGenerator('example.com');
+const issuerDid = 'did:wba:server.example.com';
+const subject = 'did:wba:client.example.com';
+
+const createSigner = async (): Promise<Signer> => {
+  const { privateKey } = await generator.generateEd25519KeyPair();
+  return new InMemorySigner(exportPrivateKey(privateKey, KeyType.ED25519));
+};
+
+describe('AccessTokenIssuer', () => {
+  it('签发的令牌可以验证', async () => {
+    const issuer = new AccessTokenIssuer({ did: issuerDid, privateKey: await createSigner() });
+
+    const { token, expiresAt } = await issuer.issue(subject, 'server.example.com');
+
+    expect(getAccessTokenExpiry(token)).toBe(expiresAt);
+    expect(await issuer.verify(token, 'server.example.com')).toEqual({ valid: true, did: subject, expiresAt });
+  });
+
+  it('拒绝其他服务的令牌、过期令牌和其他签发方的令牌', async () => {
+    const signer = await createSigner();
+    const issuer = new AccessTokenIssuer({ did: issuerDid, privateKey: signer });
+    const { token } = await issuer.issue(subject, 'server.example.com');
+
+    expect(await issuer.verify(token, 'other.example.com')).toMatchObject({ valid: false, error: 'invalid_token' });
+
+    const expired = await new AccessTokenIssuer({ did: issuerDid, privateKey: signer, lifetime: -1000 }).issue(subject, 'server.example.com');
+    expect(await issuer.verify(expired.token, 'server.example.com')).toMatchObject({ valid: false, error: 'token_expired' });
+
+    const forged = await new AccessTokenIssuer({ did: issuerDid, privateKey: await createSigner() }).issue(subject, 'server.example.com');
+    expect(await issuer.verify(forged.token, 'server.example.com')).toMatchObject({ valid: false, error: 'invalid_token' });
+  });
+
+  it('签名器函数在每次签发和验证时取当前签名器', async () => {
+    let signer = await createSigner();
+    const issuer = new AccessTokenIssuer({ did: issuerDid, privateKey: () => signer });
+    const before = await issuer.issue(subject, 'server.example.com');
+    expect((await issuer.verify(before.token, 'server.example.com')).valid).toBe(true);
+
+    signer = await createSigner();
+    const after = await issuer.issue(subject, 'server.example.com');
+
+    expect(await issuer.verify(before.token, 'server.example.com')).toMatchObject({ valid: false, error: 'invalid_token' });
+    expect((await issuer.verify(after.token, 'server.example.com')).valid).toBe(true);
+  });
+});
+
+describe('parseBearerToken', () => {
+  it('读取Bearer令牌', () => {
+    expect(parseBearerToken('Bearer abc.def-ghi_j')).toBe('abc.def-ghi_j');
+    expect(parseBearerToken('bearer abc')).toBe('abc');
+    expect(parseBearerToken('DIDWba did="x"')).toBeNull();
+    expect(parseBearerToken(undefined)).toBeNull();
+  });
+});
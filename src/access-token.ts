@@ -0,0 +1,159 @@
+/**
+ * ANP访问令牌模块
+ * DIDWba认证成功后签发短期Bearer令牌（JWS），后续请求无需重复解析DID和验证签名
+ */
+
+import * as crypto from 'crypto';
+import { decodeJWS, signJWS, verifyJWS } from './jws';
+import { ImportedPublicKey } from './key-format';
+import { Signer, toSigner } from './signer';
+
+// Bearer认证方案名称
+export const BEARER_SCHEME = 'Bearer';
+
+// 类型定义
+export interface AccessTokenIssuerOptions {
+  /** 签发方（服务端智能体）DID */
+  did: string;
+  /** 签名私钥（PKCS#8 PEM或JWK，Ed25519或secp256k1）、签名器，或返回当前签名器的函数（每次签发和验证时调用，支持密钥轮换） */
+  privateKey: string | Signer | (() => Signer);
+  /** 令牌有效期（毫秒） */
+  lifetime?: number;
+}
+
+export interface AccessTokenClaims {
+  /** 签发方DID */
+  iss: string;
+  /** 持有方DID */
+  sub: string;
+  /** 令牌适用的服务（host） */
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+export interface IssuedAccessToken {
+  token: string;
+  /** 过期时间（毫秒时间戳） */
+  expiresAt: number;
+}
+
+export type AccessTokenErrorCode = 'invalid_token' | 'token_expired';
+
+export interface AccessTokenVerificationResult {
+  valid: boolean;
+  /** 令牌持有方DID */
+  did?: string;
+  expiresAt?: number;
+  error?: AccessTokenErrorCode;
+  message?: string;
+}
+
+/**
+ * 访问令牌签发与验证类
+ */
+export class AccessTokenIssuer {
+  private options: Required<AccessTokenIssuerOptions>;
+  private getSigner: () => Signer;
+  private publicKey: { signer: Signer; publicKey: Promise<ImportedPublicKey> } | null = null;
+
+  constructor(options: AccessTokenIssuerOptions) {
+    this.options = {
+      lifetime: 15 * 60 * 1000,
+      ...options
+    };
+
+    const privateKey = this.options.privateKey;
+    if (typeof privateKey === 'function') {
+      this.getSigner = privateKey;
+    } else {
+      const signer = toSigner(privateKey);
+      this.getSigner = () => signer;
+    }
+  }
+
+  /**
+   * 为通过认证的DID签发令牌
+   */
+  async issue(subject: string, audience: string): Promise<IssuedAccessToken> {
+    const now = Date.now();
+    const expiresAt = now + this.options.lifetime;
+    const claims: AccessTokenClaims = {
+      iss: this.options.did,
+      sub: subject,
+      aud: audience,
+      iat: Math.floor(now / 1000),
+      exp: Math.floor(expiresAt / 1000),
+      jti: crypto.randomBytes(16).toString('base64url')
+    };
+
+    const token = await signJWS(claims, this.getSigner(), { typ: 'JWT' });
+    return { token, expiresAt: claims.exp * 1000 };
+  }
+
+  /**
+   * 验证令牌签名、签发方、适用服务和有效期
+   */
+  async verify(token: string, audience: string): Promise<AccessTokenVerificationResult> {
+    if (!await verifyJWS(token, await this.getPublicKey())) {
+      return { valid: false, error: 'invalid_token', message: '访问令牌签名无效' };
+    }
+
+    const claims = decodeJWS(token).payload as AccessTokenClaims;
+    if (!claims || claims.iss !== this.options.did || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+      return { valid: false, error: 'invalid_token', message: '访问令牌内容无效' };
+    }
+    if (claims.aud !== audience) {
+      return { valid: false, error: 'invalid_token', message: `访问令牌适用于 ${claims.aud}，而非 ${audience}` };
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+      return { valid: false, error: 'token_expired', message: `访问令牌已于 ${new Date(claims.exp * 1000).toISOString()} 过期` };
+    }
+
+    return { valid: true, did: claims.sub, expiresAt: claims.exp * 1000 };
+  }
+
+  /**
+   * 当前签名器的公钥（同一签名器只查询一次，签名器更换后重新查询）
+   */
+  private getPublicKey(): Promise<ImportedPublicKey> {
+    const signer = this.getSigner();
+    if (this.publicKey?.signer !== signer) {
+      const cached = {
+        signer,
+        publicKey: signer.getPublicKey().then(
+          publicKey => ({ publicKey, keyType: signer.keyType }),
+          error => {
+            if (this.publicKey === cached) {
+              this.publicKey = null;
+            }
+            throw error;
+          }
+        )
+      };
+      this.publicKey = cached;
+    }
+    return this.publicKey.publicKey;
+  }
+}
+
+/**
+ * 读取Authorization头中的Bearer令牌
+ */
+export function parseBearerToken(value: string | undefined | null): string | null {
+  const match = value && value.trim().match(/^Bearer\s+([A-Za-z0-9._-]+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * 读取令牌过期时间（不验证签名，供客户端判断是否需要重新认证）
+ */
+export function getAccessTokenExpiry(token: string): number | null {
+  try {
+    const { payload } = decodeJWS(token);
+    return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -8,8 +8,11 @@ import { createHash } from 'crypto';
 import { Buffer } from 'buffer';
 import * as ed25519 from '@noble/ed25519';
 import * as secp256k1 from '@noble/secp256k1';
-import bs58 from 'bs58';
-import base64url from 'base64url';
+import { canonicalize } from './jcs';
+import type { DataIntegrityProof } from './data-integrity';
+import type { Signer } from './signer';
+import { Secp256k1SignatureFormat, signSecp256k1Hash, verifySecp256k1Hash } from './secp256k1-signature';
+import { encodePublicKeyMultibase, exportPrivateKey, toPublicJWK } from './key-format';
 
 // 支持的密钥类型
 export enum KeyType {
@@ -24,9 +27,27 @@ export interface DIDDocument {
   id: string;
   verificationMethod?: VerificationMethod[];
   authentication: (string | VerificationMethod)[];
+  assertionMethod?: (string | VerificationMethod)[];
   keyAgreement?: (string | VerificationMethod)[];
   humanAuthorization?: (string | VerificationMethod)[];
   service?: Service[];
+  /** 文档的Data Integrity证明 */
+  proof?: DataIntegrityProof;
+}
+
+// DID文档版本接口
+export interface DIDDocumentVersion {
+  /** 版本号，从1开始递增 */
+  versionId: string;
+  /** 该版本生效时间 */
+  updated: string;
+  document: DIDDocument;
+}
+
+// 按版本号或时间查询DID文档（DID URL参数versionId / versionTime）
+export interface DIDVersionQuery {
+  versionId?: string;
+  versionTime?: string;
 }
 
 // 验证方法接口
@@ -36,6 +57,8 @@ export interface VerificationMethod {
   controller: string;
   publicKeyJwk?: PublicKeyJWK;
   publicKeyMultibase?: string;
+  /** 过期时间（ISO 8601），过期后验证方应拒绝使用该方法 */
+  expires?: string;
 }
 
 // JWK公钥接口
@@ -54,10 +77,27 @@ export interface Service {
   serviceEndpoint: string;
 }
 
+// 密钥用途（对应DID文档中的验证关系）
+export type KeyPurpose = 'authentication' | 'keyAgreement' | 'humanAuthorization';
+
+// 密钥包条目接口
+export interface KeyBundleEntry {
+  purpose: KeyPurpose;
+  keyType: KeyType;
+  /** PKCS#8 PEM格式私钥 */
+  privateKey: string;
+}
+
+// 密钥包：验证方法ID -> 私钥
+export type KeyBundle = Record<string, KeyBundleEntry>;
+
 // 密钥对结果接口
 export interface KeyPairResult {
   did_document: string;
+  /** 身份验证私钥 */
   private_key: string;
+  /** DID文档中所有验证方法的私钥 */
+  keys: KeyBundle;
   did: string;
 }
 
@@ -82,13 +122,14 @@ export class ANPKeyGenerator {
   }
 
   /**
-   * 生成DID标识符
+   * 生成DID标识符，域名中的端口编码为%3A（did:wba:example.com%3A3000:path）
    */
   private generateDID(): string {
+    const domain = this.domain.replace(/:/g, '%3A');
     if (this.path) {
-      return `did:wba:${this.domain}:${this.path}`;
+      return `did:wba:${domain}:${this.path}`;
     }
-    return `did:wba:${this.domain}`;
+    return `did:wba:${domain}`;
   }
 
   /**
@@ -125,11 +166,23 @@ export class ANPKeyGenerator {
   }
 
   /**
-   * 将公钥转换为Multibase格式
+   * 生成X25519密钥协商密钥对
    */
-  private encodeMultibase(publicKey: Uint8Array): string {
-    const base58 = bs58.encode(publicKey);
-    return `z${base58}`;
+  public async generateX25519KeyPair(): Promise<{ privateKey: Uint8Array; publicKey: Uint8Array }> {
+    const privateKey = new Uint8Array(crypto.randomBytes(32));
+    const publicKey = ed25519.curve25519.scalarMultBase(privateKey);
+    
+    return {
+      privateKey,
+      publicKey
+    };
+  }
+
+  /**
+   * 将公钥转换为带Multicodec前缀的Multibase格式
+   */
+  private encodeMultibase(publicKey: Uint8Array, keyType: KeyType): string {
+    return encodePublicKeyMultibase(publicKey, keyType);
   }
 
 
@@ -137,90 +190,79 @@ export class ANPKeyGenerator {
    * 生成JWK格式的公钥
    */
   private generateJWK(publicKey: Uint8Array, keyType: KeyType): PublicKeyJWK {
-    const kid = this.generateNonce(16);
-    
-    if (keyType === KeyType.SECP256K1) {
-      // 对于secp256k1，需要提取x,y坐标
-      // secp256k1公钥格式：04 + x(32字节) + y(32字节)
-      const x = publicKey.slice(1, 33);
-      const y = publicKey.slice(33, 65);
-      
-      return {
-        crv: 'secp256k1',
-        x: base64url.encode(Buffer.from(x)),
-        y: base64url.encode(Buffer.from(y)),
-        kty: 'EC',
-        kid: kid
-      };
-    }
-    
     return {
-      crv: 'Ed25519',
-      kty: 'OKP',
-      kid: kid
+      ...toPublicJWK(publicKey, keyType),
+      kid: this.generateNonce(16)
     };
   }
 
   /**
    * 生成完整的密钥对和DID文档
+   * @param signer 外部签名器：以其公钥作为身份验证密钥，私钥不离开签名器，
+   *               此时private_key为空字符串，keys中也不包含身份验证密钥
    */
-  public async generateKeyPair(keyType: KeyType = KeyType.ED25519): Promise<KeyPairResult> {
+  public async generateKeyPair(keyType: KeyType = KeyType.ED25519, signer?: Signer): Promise<KeyPairResult> {
+    if (signer) {
+      keyType = signer.keyType;
+    }
     const did = this.generateDID();
-    const keyId = this.generateNonce(16); // 使用更长的密钥ID
+    const keyId = signer ? signer.keyId : this.generateNonce(16); // 使用更长的密钥ID
     
     // 生成密钥对
-    let keyPair: { privateKey: Uint8Array; publicKey: Uint8Array };
+    let keyPair: { privateKey: Uint8Array; publicKey: Uint8Array } | null;
+    let keyAgreementPair: { privateKey: Uint8Array; publicKey: Uint8Array };
+    let humanAuthPair: { privateKey: Uint8Array; publicKey: Uint8Array };
+    const authKeyId = `${did}#${keyId}`;
+    const keyAgreementId = `${did}#key-2`;
+    const humanAuthId = `${did}#key-3`;
     let verificationMethods: VerificationMethod[] = [];
     let authenticationMethods: (string | VerificationMethod)[] = [];
     let keyAgreementMethods: (string | VerificationMethod)[] = [];
     let humanAuthorizationMethods: (string | VerificationMethod)[] = [];
     
     if (keyType === KeyType.ED25519) {
-      keyPair = await this.generateEd25519KeyPair();
+      keyPair = signer ? null : await this.generateEd25519KeyPair();
+      const authPublicKey = signer ? await signer.getPublicKey() : keyPair!.publicKey;
       
       // 生成身份验证密钥
-      const authKeyId = `${did}#${keyId}`;
       const authMethod: VerificationMethod = {
         id: authKeyId,
         type: KeyType.ED25519,
         controller: did,
-        publicKeyMultibase: this.encodeMultibase(keyPair.publicKey)
+        publicKeyMultibase: this.encodeMultibase(authPublicKey, KeyType.ED25519)
       };
       
       verificationMethods.push(authMethod);
       authenticationMethods.push(authKeyId);
       
       // 生成密钥协商密钥
-      const keyAgreementPair = await this.generateEd25519KeyPair();
-      const keyAgreementId = `${did}#key-2`;
+      keyAgreementPair = await this.generateX25519KeyPair();
       const keyAgreementMethod: VerificationMethod = {
         id: keyAgreementId,
         type: KeyType.X25519,
         controller: did,
-        publicKeyMultibase: this.encodeMultibase(keyAgreementPair.publicKey)
+        publicKeyMultibase: this.encodeMultibase(keyAgreementPair.publicKey, KeyType.X25519)
       };
       
       verificationMethods.push(keyAgreementMethod);
       keyAgreementMethods.push(keyAgreementMethod);
       
       // 生成人类授权密钥
-      const humanAuthPair = await this.generateEd25519KeyPair();
-      const humanAuthId = `${did}#key-3`;
+      humanAuthPair = await this.generateEd25519KeyPair();
       const humanAuthMethod: VerificationMethod = {
         id: humanAuthId,
         type: KeyType.ED25519,
         controller: did,
-        publicKeyMultibase: this.encodeMultibase(humanAuthPair.publicKey)
+        publicKeyMultibase: this.encodeMultibase(humanAuthPair.publicKey, KeyType.ED25519)
       };
       
       verificationMethods.push(humanAuthMethod);
-      humanAuthorizationMethods.push(authKeyId, humanAuthMethod);
+      humanAuthorizationMethods.push(humanAuthMethod);
       
     } else if (keyType === KeyType.SECP256K1) {
-      keyPair = await this.generateSecp256k1KeyPair();
-      const jwk = this.generateJWK(keyPair.publicKey, keyType);
+      keyPair = signer ? null : await this.generateSecp256k1KeyPair();
+      const jwk = this.generateJWK(signer ? await signer.getPublicKey() : keyPair!.publicKey, keyType);
       
-      const authKeyId = `${did}#${keyId}`;
       const authMethod: VerificationMethod = {
         id: authKeyId,
         type: KeyType.SECP256K1,
@@ -232,30 +274,28 @@ export class ANPKeyGenerator {
       authenticationMethods.push(authKeyId);
       
       // 生成密钥协商密钥
-      const keyAgreementPair = await this.generateEd25519KeyPair();
-      const keyAgreementId = `${did}#key-2`;
+      keyAgreementPair = await this.generateX25519KeyPair();
       const keyAgreementMethod: VerificationMethod = {
         id: keyAgreementId,
         type: KeyType.X25519,
         controller: did,
-        publicKeyMultibase: this.encodeMultibase(keyAgreementPair.publicKey)
+        publicKeyMultibase: this.encodeMultibase(keyAgreementPair.publicKey, KeyType.X25519)
       };
       
       verificationMethods.push(keyAgreementMethod);
       keyAgreementMethods.push(keyAgreementMethod);
       
       // 生成人类授权密钥
-      const humanAuthPair = await this.generateEd25519KeyPair();
-      const humanAuthId = `${did}#key-3`;
+      humanAuthPair = await this.generateEd25519KeyPair();
       const humanAuthMethod: VerificationMethod = {
         id: humanAuthId,
         type: KeyType.ED25519,
         controller: did,
-        publicKeyMultibase: this.encodeMultibase(humanAuthPair.publicKey)
+        publicKeyMultibase: this.encodeMultibase(humanAuthPair.publicKey, KeyType.ED25519)
       };
       
       verificationMethods.push(humanAuthMethod);
-      humanAuthorizationMethods.push(authKeyId, humanAuthMethod);
+      humanAuthorizationMethods.push(humanAuthMethod);
       
     } else {
       throw new Error(`不支持的密钥类型: ${keyType}`);
@@ -273,6 +313,7 @@ export class ANPKeyGenerator {
       id: did,
       verificationMethod: verificationMethods,
       authentication: authenticationMethods,
+      assertionMethod: [authKeyId],
       keyAgreement: keyAgreementMethods,
       humanAuthorization: humanAuthorizationMethods,
       service: [{
@@ -283,40 +324,68 @@ export class ANPKeyGenerator {
     };
 
     // 生成PEM格式的私钥
-    const privateKeyPem = this.generatePEMPrivateKey(keyPair.privateKey, keyType);
+    const privateKeyPem = keyPair ? this.generatePEMPrivateKey(keyPair.privateKey, keyType) : '';
 
     return {
       did_document: JSON.stringify(didDocument, null, 2),
       private_key: privateKeyPem,
+      keys: {
+        ...(keyPair ? { [authKeyId]: { purpose: 'authentication' as KeyPurpose, keyType, privateKey: privateKeyPem } } : {}),
+        [keyAgreementId]: {
+          purpose: 'keyAgreement',
+          keyType: KeyType.X25519,
+          privateKey: this.generatePEMPrivateKey(keyAgreementPair.privateKey, KeyType.X25519)
+        },
+        [humanAuthId]: {
+          purpose: 'humanAuthorization',
+          keyType: KeyType.ED25519,
+          privateKey: this.generatePEMPrivateKey(humanAuthPair.privateKey, KeyType.ED25519)
+        }
+      },
       did: did
     };
   }
 
   /**
-   * 生成PEM格式的私钥
+   * 为已有DID生成一个新的身份验证方法及其私钥
    */
-  private generatePEMPrivateKey(privateKey: Uint8Array, keyType: KeyType): string {
-    // 根据密钥类型生成正确的PEM头部
-    let header: string;
-    let footer: string;
-    
+  public async generateVerificationMethod(did: string, keyType: KeyType = KeyType.ED25519): Promise<{ method: VerificationMethod; privateKey: string }> {
+    const id = `${did}#${this.generateNonce(16)}`;
+
     if (keyType === KeyType.ED25519) {
-      header = '-----BEGIN ED25519 PRIVATE KEY-----';
-      footer = '-----END ED25519 PRIVATE KEY-----';
-    } else if (keyType === KeyType.SECP256K1) {
-      header = '-----BEGIN SECP256K1 PRIVATE KEY-----';
-      footer = '-----END SECP256K1 PRIVATE KEY-----';
-    } else {
-      header = `-----BEGIN ${keyType} PRIVATE KEY-----`;
-      footer = `-----END ${keyType} PRIVATE KEY-----`;
+      const keyPair = await this.generateEd25519KeyPair();
+      return {
+        method: {
+          id,
+          type: KeyType.ED25519,
+          controller: did,
+          publicKeyMultibase: this.encodeMultibase(keyPair.publicKey, KeyType.ED25519)
+        },
+        privateKey: this.generatePEMPrivateKey(keyPair.privateKey, keyType)
+      };
     }
-    
-    const base64Key = Buffer.from(privateKey).toString('base64');
-    
-    // 每64个字符换行
-    const formattedKey = base64Key.match(/.{1,64}/g)?.join('\n') || base64Key;
-    
-    return `${header}\n${formattedKey}\n${footer}`;
+
+    if (keyType === KeyType.SECP256K1) {
+      const keyPair = await this.generateSecp256k1KeyPair();
+      return {
+        method: {
+          id,
+          type: KeyType.SECP256K1,
+          controller: did,
+          publicKeyJwk: this.generateJWK(keyPair.publicKey, keyType)
+        },
+        privateKey: this.generatePEMPrivateKey(keyPair.privateKey, keyType)
+      };
+    }
+
+    throw new Error(`不支持的密钥类型: ${keyType}`);
+  }
+
+  /**
+   * 生成PKCS#8 PEM格式的私钥
+   */
+  private generatePEMPrivateKey(privateKey: Uint8Array, keyType: KeyType): string {
+    return exportPrivateKey(privateKey, keyType, 'pem');
   }
 
   /**
@@ -332,17 +401,16 @@ export class ANPKeyGenerator {
   }
 
   /**
-   * 使用JCS规范化JSON
+   * 使用JCS规范化JSON（RFC 8785）
    */
   public jcsCanonicalize(obj: any): string {
-    // 简化的JCS实现，实际应该使用专门的JCS库
-    return JSON.stringify(obj, Object.keys(obj).sort());
+    return canonicalize(obj);
   }
 
   /**
    * 使用Ed25519私钥签名
    */
-  public async signEd25519(privateKey: Uint8Array, data: SignatureData): Promise<string> {
+  public async signEd25519(privateKey: Uint8Array, data: SignatureData | Record<string, any>): Promise<string> {
     const canonicalJson = this.jcsCanonicalize(data);
     const message = Buffer.from(canonicalJson, 'utf8');
     const signature = await ed25519.sign(message, privateKey);
@@ -351,19 +419,23 @@ export class ANPKeyGenerator {
 
   /**
    * 使用secp256k1私钥签名
+   * @param format 签名编码，默认DER（与此前版本输出一致）；所有格式均为low-S形式
    */
-  public async signSecp256k1(privateKey: Uint8Array, data: SignatureData): Promise<string> {
+  public async signSecp256k1(
+    privateKey: Uint8Array,
+    data: SignatureData | Record<string, any>,
+    format: Secp256k1SignatureFormat = 'der'
+  ): Promise<string> {
     const canonicalJson = this.jcsCanonicalize(data);
     const messageHash = createHash('sha256').update(canonicalJson).digest();
-    const signature = await secp256k1.sign(messageHash, privateKey);
-    // 在1.7.1版本中，sign方法直接返回紧凑格式的签名字节数组
+    const signature = await signSecp256k1Hash(messageHash, privateKey, format);
     return Buffer.from(signature).toString('base64url');
   }
 
   /**
    * 验证Ed25519签名
    */
-  public async verifyEd25519(publicKey: Uint8Array, signature: string, data: SignatureData): Promise<boolean> {
+  public async verifyEd25519(publicKey: Uint8Array, signature: string, data: SignatureData | Record<string, any>): Promise<boolean> {
     try {
       const canonicalJson = this.jcsCanonicalize(data);
       const message = Buffer.from(canonicalJson, 'utf8');
@@ -375,14 +447,14 @@ export class ANPKeyGenerator {
   }
 
   /**
-   * 验证secp256k1签名
+   * 验证secp256k1签名，自动识别紧凑、DER和可恢复格式
    */
-  public async verifySecp256k1(publicKey: Uint8Array, signature: string, data: SignatureData): Promise<boolean> {
+  public async verifySecp256k1(publicKey: Uint8Array, signature: string, data: SignatureData | Record<string, any>): Promise<boolean> {
     try {
       const canonicalJson = this.jcsCanonicalize(data);
       const messageHash = createHash('sha256').update(canonicalJson).digest();
       const signatureBuffer = Buffer.from(signature, 'base64url');
-      return await secp256k1.verify(signatureBuffer, messageHash, publicKey);
+      return verifySecp256k1Hash(signatureBuffer, messageHash, publicKey);
     } catch (error) {
       return false;
     }
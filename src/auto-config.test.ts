@@ -0,0 +1,325 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { parseBearerToken } from './access-token';
+import { KeyType } from './anp-key-generator';
+import { AgentConfig, ANPClient, ANPSDK, AutoConfigAgent } from './auto-config';
+import { DIDResolver } from './did-resolver';
+import { encryptMessage, findKeyAgreementMethod } from './e2ee';
+import { HTTPAutoConfig } from './http-auto-config';
+import { createStaticApprover, encodeHumanAuthorizationProof, HUMAN_AUTHORIZATION_HEADER, HumanAuthorizer } from './human-authorization';
+import { verifyJWS } from './jws';
+import { Keystore } from './keystore';
+import { generateSelfSignedCertificate } from './tls-certificate';
+
+describe('AutoConfigAgent', () => {
+  const agents: AutoConfigAgent[] = [];
+  let server: AgentConfig;
+  let client: AgentConfig;
+
+  const startAgent = async (options: ConstructorParameters<typeof AutoConfigAgent>[0] = {}) => {
+    const agent = new AutoConfigAgent({ logLevel: 'error', portRange: [4300, 4399], insecureDIDResolution: true, ...options });
+    agents.push(agent);
+    return { agent, config: await agent.autoSetup() };
+  };
+
+  const createClient = (options: ConstructorParameters<typeof ANPClient>[3] = {}) =>
+    new ANPClient(client.did, client.privateKey, client.verificationMethod, {
+      keyAgreementPrivateKey: client.keyAgreementPrivateKey,
+      ...options
+    });
+
+  // 使用客户端身份签名的DIDWba头直接发送请求体
+  const postRaw = async (body: any, headers: Record<string, string> = {}) => {
+    const service = new URL(server.endpoint).host;
+    const authorization = await (createClient() as any).generateAuthorizationHeader(service);
+    return fetch(server.endpoint, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json', Authorization: authorization },
+      body: JSON.stringify(body)
+    });
+  };
+
+  beforeAll(async () => {
+    server = (await startAgent({ humanAuthorizationActions: ['transfer'] })).config;
+    client = (await startAgent()).config;
+  });
+
+  afterAll(async () => {
+    await Promise.all(agents.map(agent => agent.stop()));
+  });
+
+  it('处理DIDWba认证的请求', async () => {
+    const response = await createClient().sendRequest(server.endpoint, { content: 'hi' });
+    expect(response).toMatchObject({ response: '收到消息: hi', did: server.did });
+  });
+
+  describe('端到端加密', () => {
+    it('通过recipientDID解析对方密钥并加密往返', async () => {
+      const response = await createClient({ encrypt: true }).sendRequest(server.endpoint, { content: 'secret' }, { recipientDID: server.did });
+      expect(response).toMatchObject({ response: '收到消息: secret', did: server.did });
+    });
+
+    // 目标地址的POST请求返回指定响应体，DID解析仍走真实请求
+    const respondWith = (body: any) => async (url: string, init?: RequestInit) => init?.method === 'POST'
+      ? new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+      : fetch(url, init);
+
+    it('加密模式拒绝未加密的响应', async () => {
+      const encryptedClient = createClient({ encrypt: true, fetch: respondWith({ response: 'plain', did: server.did }) });
+
+      await expect(encryptedClient.sendRequest(server.endpoint, { content: 'secret' }, { recipientDID: server.did }))
+        .rejects.toThrow('未加密的响应');
+    });
+
+    it('加密响应的发送方不是recipientDID时拒绝', async () => {
+      const envelope = encryptMessage({ response: 'forged' }, findKeyAgreementMethod(client.didDocument)!, 'did:wba:someone-else.com');
+      const encryptedClient = createClient({ encrypt: true, fetch: respondWith(envelope) });
+
+      await expect(encryptedClient.sendRequest(server.endpoint, { content: 'secret' }, { recipientDID: server.did }))
+        .rejects.toThrow('不一致');
+    });
+
+    it('加密模式必须提供recipientDID', async () => {
+      await expect(createClient({ encrypt: true }).sendRequest(server.endpoint, { content: 'secret' }))
+        .rejects.toThrow('加密模式需要提供recipientDID');
+    });
+
+    it('发送方与认证身份不一致时返回403', async () => {
+      const envelope = encryptMessage({ content: 'x' }, findKeyAgreementMethod(server.didDocument)!, 'did:wba:someone-else.com');
+      const response = await postRaw(envelope);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'sender_mismatch' });
+    });
+
+    it('无法解密时返回400', async () => {
+      const envelope = encryptMessage({ content: 'x' }, findKeyAgreementMethod(server.didDocument)!, client.did);
+      const response = await postRaw({ ...envelope, tag: Buffer.alloc(16).toString('base64url') });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'invalid_encrypted_message' });
+    });
+  });
+
+  describe('人类授权', () => {
+    const createAuthorizer = () => new HumanAuthorizer({
+      did: client.did,
+      keys: client.keys,
+      approver: createStaticApprover(true),
+      logLevel: 'error'
+    });
+    const message = { action: 'transfer', content: 'pay 100' };
+
+    it('缺少人类授权凭证时返回403', async () => {
+      await expect(createClient().sendRequest(server.endpoint, message)).rejects.toThrow('HTTP 403');
+    });
+
+    it('附带人类授权凭证的请求通过', async () => {
+      const response = await createClient({ humanAuthorizer: createAuthorizer() }).sendRequest(server.endpoint, message);
+      expect(response).toMatchObject({ response: '收到消息: pay 100' });
+    });
+
+    it('拒绝重放的凭证和签发给其他服务的凭证', async () => {
+      const service = new URL(server.endpoint).host;
+      const proof = await createAuthorizer().authorize('transfer', message, service);
+      const header = { [HUMAN_AUTHORIZATION_HEADER]: encodeHumanAuthorizationProof(proof) };
+
+      expect((await postRaw(message, header)).status).toBe(200);
+      const replayed = await postRaw(message, header);
+      expect(replayed.status).toBe(403);
+      expect(await replayed.json()).toMatchObject({ code: 'replayed_nonce' });
+
+      const otherService = await createAuthorizer().authorize('transfer', message, 'other.example.com');
+      const response = await postRaw(message, { [HUMAN_AUTHORIZATION_HEADER]: encodeHumanAuthorizationProof(otherService) });
+      expect(await response.json()).toMatchObject({ code: 'audience_mismatch' });
+    });
+
+    it('检查未通过时不签发访问令牌', async () => {
+      const response = await postRaw(message);
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('authorization')).toBeNull();
+    });
+  });
+
+  it('已停用的智能体返回410而不是500', async () => {
+    const { agent, config } = await startAgent();
+    await agent.getDIDAutoConfig().deactivateDID(config.did);
+
+    const response = await fetch(config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: await (createClient() as any).generateAuthorizationHeader(new URL(config.endpoint).host)
+      },
+      body: JSON.stringify({ content: 'hi' })
+    });
+
+    expect(response.status).toBe(410);
+    expect(await response.json()).toMatchObject({ code: 'did_deactivated' });
+  });
+
+  it('两个使用自签名证书的智能体通过ca互相信任，DID按HTTPS解析', async () => {
+    const { localIP } = await new HTTPAutoConfig({ autoStart: false, logLevel: 'error' }).allocateAddress();
+    const tls = generateSelfSignedCertificate({ commonName: localIP, altNames: [localIP, 'localhost', '127.0.0.1'] });
+    const httpsServer = (await startAgent({ tls, ca: tls.cert, insecureDIDResolution: false })).config;
+    const httpsClient = (await startAgent({ tls, ca: tls.cert, insecureDIDResolution: false })).config;
+    const createHTTPSClient = (ca?: string) => new ANPClient(httpsClient.did, httpsClient.privateKey, httpsClient.verificationMethod, {
+      encrypt: true,
+      keyAgreementPrivateKey: httpsClient.keyAgreementPrivateKey,
+      ca
+    });
+
+    expect(httpsServer.endpoint.startsWith('https://')).toBe(true);
+    const response = await createHTTPSClient(tls.cert).sendRequest(httpsServer.endpoint, { content: 'tls' }, { recipientDID: httpsServer.did });
+    expect(response).toMatchObject({ response: '收到消息: tls', did: httpsServer.did });
+
+    await expect(createHTTPSClient().sendRequest(httpsServer.endpoint, { content: 'tls' }, { recipientDID: httpsServer.did }))
+      .rejects.toThrow();
+  });
+
+  it('默认通过https解析请求方DID，与本智能体的服务协议无关', async () => {
+    const httpServer = (await startAgent({ insecureDIDResolution: false })).config;
+
+    expect(httpServer.endpoint.startsWith('http://')).toBe(true);
+    // 客户端只以http提供DID文档，https解析失败
+    await expect(createClient().sendRequest(httpServer.endpoint, { content: 'hi' })).rejects.toThrow('HTTP 401');
+  });
+
+  describe('端口与密钥库身份', () => {
+    let directory: string;
+
+    beforeAll(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'anp-agent-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const identity = (passphrase: string) => ({
+      keystore: new Keystore({ directory, logLevel: 'error' }),
+      name: 'sticky',
+      passphrase
+    });
+
+    it('粘性端口从密钥库DID读取，重启后沿用端口和DID', async () => {
+      const first = await startAgent({ portRange: [4530, 4539], stickyPort: true, keystore: identity('secret') });
+      await first.agent.stop();
+
+      const second = await startAgent({ portRange: [4540, 4549], stickyPort: true, keystore: identity('secret') });
+
+      expect(second.config.port).toBe(first.config.port);
+      expect(second.config.did).toBe(first.config.did);
+      await second.agent.stop();
+    });
+
+    it('DID配置失败时释放已绑定的端口', async () => {
+      await expect(startAgent({ portRange: [4550, 4550], keystore: identity('wrong passphrase') })).rejects.toThrow();
+
+      const probe = net.createServer();
+      await new Promise<void>((resolve, reject) => {
+        probe.once('error', reject);
+        probe.listen(4550, '0.0.0.0', resolve);
+      });
+      await new Promise(resolve => probe.close(resolve));
+    });
+  });
+
+  describe('访问令牌', () => {
+    it('DIDWba认证通过后签发令牌，密钥轮换后改用新密钥签发并拒绝旧令牌', async () => {
+      const { agent, config } = await startAgent();
+      const service = new URL(config.endpoint).host;
+      const authorization = await (createClient() as any).generateAuthorizationHeader(service);
+      const post = (auth: string) => fetch(config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: auth },
+        body: JSON.stringify({ content: 'hi' })
+      });
+
+      const first = await post(authorization);
+      const oldToken = first.headers.get('authorization')!;
+      expect(parseBearerToken(oldToken)).not.toBeNull();
+      expect((await post(oldToken)).status).toBe(200);
+
+      await agent.getDIDAutoConfig().rotateAuthenticationKey();
+
+      const rejected = await post(oldToken);
+      expect(rejected.status).toBe(401);
+      expect(await rejected.json()).toMatchObject({ code: 'invalid_token' });
+
+      const retried = await createClient().sendRequest(config.endpoint, { content: 'again' });
+      expect(retried).toMatchObject({ response: '收到消息: again' });
+
+      const second = await post(await (createClient() as any).generateAuthorizationHeader(service));
+      const newToken = parseBearerToken(second.headers.get('authorization'))!;
+      const signer = agent.getDIDAutoConfig().getSigner();
+      const publicKey = { publicKey: await signer.getPublicKey(), keyType: signer.keyType };
+      expect(await verifyJWS(newToken, publicKey)).toBe(true);
+      expect((await post(`Bearer ${newToken}`)).status).toBe(200);
+    });
+
+    it('令牌持有方的DID停用后拒绝其访问令牌', async () => {
+      // 不缓存DID文档，停用立即生效
+      const { config } = await startAgent({ didResolver: new DIDResolver({ protocol: 'http', cacheTTL: 0, logLevel: 'error' }) });
+      const holder = await startAgent();
+      const holderClient = new ANPClient(holder.config.did, holder.config.privateKey, holder.config.verificationMethod);
+      const service = new URL(config.endpoint).host;
+      const post = (auth: string) => fetch(config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: auth },
+        body: JSON.stringify({ content: 'hi' })
+      });
+
+      const first = await post(await (holderClient as any).generateAuthorizationHeader(service));
+      const token = first.headers.get('authorization')!;
+      expect((await post(token)).status).toBe(200);
+
+      await holder.agent.getDIDAutoConfig().deactivateDID(holder.config.did);
+
+      const rejected = await post(token);
+      expect(rejected.status).toBe(401);
+      expect(await rejected.json()).toMatchObject({ code: 'did_deactivated' });
+    });
+  });
+});
+
+describe('ANPSDK', () => {
+  const sdks: ANPSDK[] = [];
+
+  const start = async (options: ConstructorParameters<typeof ANPSDK>[0] = {}) => {
+    const sdk = new ANPSDK({ logLevel: 'error', portRange: [4630, 4639], insecureDIDResolution: true, ...options });
+    sdks.push(sdk);
+    return { sdk, config: await sdk.start() };
+  };
+
+  afterAll(async () => {
+    await Promise.all(sdks.map(sdk => sdk.stop()));
+  });
+
+  it('由HTTP和DID配置模块组合启动，两者的选项端到端生效', async () => {
+    const { sdk, config: server } = await start({
+      keyType: KeyType.SECP256K1,
+      agentName: 'Composed Agent',
+      serviceEndpoints: [{ id: 'search', type: 'SearchService', serviceEndpoint: 'https://example.com/search' }],
+      routes: [{ method: 'GET', path: '/custom', handler: (req, res) => { res.json({ custom: true }); } }]
+    });
+    const { config: client } = await start();
+    const agent = sdk.getAgent()!;
+
+    expect(agent.getDIDAutoConfig().getDID()).toBe(server.did);
+    expect(agent.getHTTPAutoConfig().getConfig().port).toBe(server.port);
+    expect(server.did).toContain(`%3A${server.port}`);
+    expect(server.didDocument.verificationMethod[0].type).toBe(KeyType.SECP256K1);
+    expect(server.didDocument.service.map((s: any) => s.type)).toContain('SearchService');
+    expect(server.agentDescription.name).toBe('Composed Agent');
+    expect(await (await fetch(`${new URL(server.endpoint).origin}/custom`)).json()).toEqual({ custom: true });
+
+    const response = await sdk.createClient(client.did, client.privateKey, client.verificationMethod)
+      .sendRequest(server.endpoint, { content: 'hi' });
+    expect(response).toMatchObject({ response: '收到消息: hi', did: server.did });
+  });
+});
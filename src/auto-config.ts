@@ -3,50 +3,107 @@
  * 提供端口自动分配、DID自动生成、HTTP服务器自动启动等功能
  */
 
-import * as net from 'net';
-import * as os from 'os';
 import express from 'express';
-import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import { ANPKeyGenerator, DIDDocument, KeyBundle, KeyType, VerificationMethod } from './anp-key-generator';
+import { buildDIDWbaHeader, DIDWbaVerificationResult, DIDWbaVerifier, parseDIDWbaHeader } from './did-wba-auth';
+import { DID_DEACTIVATED_STATUS, DIDDeactivatedError, DIDResolver } from './did-resolver';
+import * as secp256k1 from '@noble/secp256k1';
+import { findBundleKey, importPrivateKey } from './key-format';
+import { handleShutdownSignals, HTTPAutoConfig, HTTPAutoConfigOptions, RouteConfig } from './http-auto-config';
+import { AgentInterface, DIDAutoConfig, DIDAutoConfigOptions } from './did-auto-config';
+import { encodeSecp256k1Signature } from './secp256k1-signature';
+import { Signer, toSigner } from './signer';
+import { createTrustedFetch, FetchFunction } from './tls-certificate';
+import {
+  AccessTokenIssuer,
+  AccessTokenVerificationResult,
+  BEARER_SCHEME,
+  getAccessTokenExpiry,
+  parseBearerToken
+} from './access-token';
+import {
+  decryptMessage,
+  EncryptedEnvelope,
+  encryptMessage,
+  findKeyAgreementMethod,
+  isEncryptedEnvelope
+} from './e2ee';
+import {
+  decodeHumanAuthorizationProof,
+  encodeHumanAuthorizationProof,
+  HUMAN_AUTHORIZATION_HEADER,
+  HumanAuthorizationVerificationResult,
+  HumanAuthorizationVerifier,
+  HumanAuthorizer
+} from './human-authorization';
+import {
+  createPresentation,
+  PresentationVerificationResult,
+  VerifiableCredential,
+  VerifiablePresentation,
+  verifyPresentation
+} from './credentials';
 
 // 类型定义
-export interface AutoConfigOptions {
-  /** 是否自动启动HTTP服务器 */
-  autoStart?: boolean;
-  /** 是否自动分配端口 */
-  autoPort?: boolean;
-  /** 是否自动生成DID */
-  autoDID?: boolean;
+// 继承HTTPAutoConfig和DIDAutoConfig的全部选项，原样交给对应模块
+export interface AutoConfigOptions extends HTTPAutoConfigOptions, DIDAutoConfigOptions {
   /** 发现服务地址 */
   discoveryService?: string;
-  /** 端口范围 */
-  portRange?: [number, number];
-  /** 智能体名称 */
-  agentName?: string;
-  /** 自定义接口配置 */
-  interfaces?: AgentInterface[];
-  /** 日志级别 */
-  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  /** DIDWba签名时间戳允许的偏差（毫秒） */
+  authTimestampWindow?: number;
+  /** 用于验证请求方身份的DID解析器 */
+  didResolver?: DIDResolver;
+  /** 解析其他智能体DID时额外信任的CA证书（PEM），例如对方的自签名证书；仅作用于默认DID解析器 */
+  ca?: string | string[];
+  /** 允许默认DID解析器通过http获取其他智能体的DID文档（仅用于本地开发和测试），默认始终使用https */
+  insecureDIDResolution?: boolean;
+  /** 需要携带人类授权凭证的请求操作（请求中的action字段），'*'表示所有带action的请求 */
+  humanAuthorizationActions?: string[];
+  /** 请求方必须出示的凭证类型 */
+  requiredCredentialTypes?: string[];
+  /** 受信任的凭证签发方DID，为空表示接受任意签发方 */
+  trustedIssuers?: string[];
+  /** DIDWba认证成功后签发的访问令牌有效期（毫秒），0表示不签发；持有方DID停用后，令牌最迟在DID解析缓存过期时失效 */
+  accessTokenLifetime?: number;
+  /** 访问令牌签名私钥（PKCS#8 PEM或JWK）或签名器，默认使用智能体的身份验证密钥 */
+  accessTokenSigningKey?: string | Signer | null;
+  /** 粘性端口：优先使用密钥库身份上次使用的端口（记录在DID中），使重启后DID保持不变 */
+  stickyPort?: boolean;
 }
 
-export interface AgentInterface {
-  type: 'NaturalLanguageInterface' | 'StructuredInterface';
-  description: string;
-  url?: string;
-}
+// 智能体自身的选项（HTTP和DID选项的默认值由对应模块决定）
+type AgentOptionKey = Exclude<keyof AutoConfigOptions, keyof HTTPAutoConfigOptions | keyof DIDAutoConfigOptions> | 'logLevel';
+
+export type { AgentInterface };
 
 export interface AgentConfig {
   did: string;
   port: number;
   endpoint: string;
   localIP: string;
+  /** 身份验证私钥（PKCS#8 PEM），使用外部签名器时为空字符串 */
   privateKey: string;
+  /** 身份验证密钥的签名器 */
+  signer: Signer;
+  /** 身份验证方法ID片段，用于构建DIDWba认证头 */
+  verificationMethod: string;
+  /** 密钥协商（X25519）私钥，用于端到端加密 */
+  keyAgreementPrivateKey?: string;
+  /** DID文档中所有验证方法的私钥 */
+  keys: KeyBundle;
   didDocument: any;
   agentDescription: any;
+  /** 启用TLS时服务使用的PEM证书，自签名证书需由客户端信任 */
+  certificate?: string;
 }
 
 export interface ANPRequest {
   content?: string;
   message?: string;
+  /** 操作名称，用于判断是否需要人类授权 */
+  action?: string;
+  /** 请求方出示的可验证凭证 */
+  presentation?: VerifiablePresentation;
   [key: string]: any;
 }
 
@@ -59,36 +116,55 @@ export interface ANPResponse {
 
 /**
  * 自动配置ANP智能体类
+ * HTTPAutoConfig负责地址分配和HTTP服务器，DIDAutoConfig负责身份和文档，本类提供ANP协议端点
  */
 export class AutoConfigAgent {
-  private options: Required<AutoConfigOptions>;
+  private options: AutoConfigOptions & Required<Pick<AutoConfigOptions, AgentOptionKey>>;
+  private http: HTTPAutoConfig;
+  private didConfig: DIDAutoConfig;
   private autoPort: number | null = null;
-  private autoDid: string | null = null;
-  private autoDescription: any = null;
-  private privateKey: string | null = null;
   private localIP: string | null = null;
-  private server: any = null;
-  private app: express.Application | null = null;
   private isRunning: boolean = false;
-  private didDocument: any = null;
+  private verifier: DIDWbaVerifier;
+  private humanAuthorizationVerifier: HumanAuthorizationVerifier = new HumanAuthorizationVerifier();
+  private tokenIssuer: AccessTokenIssuer | null = null;
+  private stopping: Promise<void> | null = null;
+  private removeSignalHandlers: (() => void) | null = null;
 
   constructor(options: AutoConfigOptions = {}) {
     this.options = {
-      autoStart: true,
-      autoPort: true,
-      autoDID: true,
       discoveryService: '',
-      portRange: [3000, 4000],
-      agentName: 'Auto-Configured ANP Agent',
-      interfaces: [
-        {
-          type: 'NaturalLanguageInterface',
-          description: 'Auto-configured natural language interface'
-        }
-      ],
       logLevel: 'info',
+      authTimestampWindow: 5 * 60 * 1000,
+      // 默认通过https解析，与本智能体自身的服务协议无关；降级为http需显式开启
+      didResolver: new DIDResolver({
+        protocol: options.insecureDIDResolution ? 'http' : 'https',
+        ...(options.ca ? { fetch: createTrustedFetch(options.ca) } : {}),
+        logLevel: options.logLevel || 'info'
+      }),
+      ca: [],
+      insecureDIDResolution: false,
+      humanAuthorizationActions: [],
+      requiredCredentialTypes: [],
+      trustedIssuers: [],
+      accessTokenLifetime: 15 * 60 * 1000,
+      accessTokenSigningKey: null,
+      stickyPort: false,
       ...options
     };
+
+    // ANP端点排在用户路由之前；信号由智能体处理，以便停止时先从发现服务注销
+    this.http = new HTTPAutoConfig({
+      ...this.options,
+      routes: [...this.createRoutes(), ...(this.options.routes || [])],
+      handleSignals: false
+    });
+    this.didConfig = new DIDAutoConfig({ ...this.options, protocol: this.http.getProtocol() });
+
+    this.verifier = new DIDWbaVerifier({
+      resolveDID: (did, noCache) => this.resolveDIDDocument(did, noCache),
+      timestampWindow: this.options.authTimestampWindow
+    });
   }
 
   /**
@@ -98,239 +174,341 @@ export class AutoConfigAgent {
     this.log('info', '🔄 ANP SDK: 开始自动配置...');
     
     try {
-      // 步骤1: 自动分配端口
-      this.autoPort = await this.findAvailablePort();
-      this.log('info', `✅ 自动分配端口: ${this.autoPort}`);
-      
-      // 步骤2: 获取本地IP
-      this.localIP = await this.getLocalIP();
-      this.log('info', `✅ 本地IP: ${this.localIP}`);
+      // 步骤1: 获取本地IP并分配端口（自动启动时直接绑定）
+      const stickyPort = await this.getStickyPort();
+      const { port, localIP } = await this.http.allocateAddress(stickyPort ?? this.options.preferredPort ?? null);
+      if (stickyPort !== null && port !== stickyPort) {
+        this.log('warn', `⚠️ 粘性端口 ${stickyPort} 不可用，改用端口 ${port}，DID将与密钥库中的身份不一致`);
+      }
+      this.autoPort = port;
+      this.localIP = localIP;
       
-      // 步骤3: 自动生成DID和密钥
-      await this.generateDIDAndKeys();
-      this.log('info', `✅ 生成DID: ${this.autoDid}`);
+      // 步骤2: 生成DID、DID文档和智能体描述
+      const { did } = await this.didConfig.autoSetup(localIP, port);
+      this.log('info', `✅ 生成DID: ${did}`);
+      this.setupAccessTokens();
       
-      // 步骤4: 启动HTTP服务器
-      if (this.options.autoStart) {
-        await this.startHTTPServer();
-        this.log('info', `✅ HTTP服务器启动在端口: ${this.autoPort}`);
-        
-        // 步骤5: 自动配置路由
-        this.setupRoutes();
-        this.log('info', `✅ 路由配置完成`);
+      // 步骤3: 启动HTTP服务器（包含ANP路由）
+      if (this.options.autoStart !== false) {
+        await this.http.autoSetup();
+        this.log('info', `✅ HTTP服务器启动在端口: ${port}`);
         
-        // 步骤6: 注册到发现服务
+        // 步骤4: 注册到发现服务
         await this.registerToDiscovery();
         this.log('info', `✅ 注册到发现服务`);
+
+        if (this.options.handleSignals) {
+          this.removeSignalHandlers = handleShutdownSignals(() => this.stop());
+        }
       }
       
+      this.stopping = null;
       this.isRunning = true;
       this.log('info', '🎉 ANP SDK: 自动配置完成！');
       return this.getConfig();
       
     } catch (error) {
       this.log('error', `❌ ANP SDK: 自动配置失败: ${error}`);
+      // 步骤1已绑定端口，释放服务器，避免监听句柄占用端口并使进程无法退出
+      await this.http.stop().catch(stopError => this.log('warn', `⚠️ 释放HTTP服务器失败: ${stopError}`));
       throw error;
     }
   }
 
   /**
-   * 自动分配可用端口
+   * 粘性端口：密钥库中身份的DID包含上次使用的端口，无需解锁即可读取
    */
-  private async findAvailablePort(): Promise<number> {
-    const [startPort, endPort] = this.options.portRange;
-    
-    for (let port = startPort; port <= endPort; port++) {
-      if (await this.isPortAvailable(port)) {
-        return port;
-      }
+  private async getStickyPort(): Promise<number | null> {
+    if (!this.options.stickyPort) {
+      return null;
     }
-    
-    // 如果指定范围内没有可用端口，使用系统自动分配
-    return new Promise((resolve, reject) => {
-      const server = net.createServer();
-      
-      server.listen(0, () => {
-        const port = (server.address() as net.AddressInfo).port;
-        server.close(() => {
-          resolve(port);
-        });
-      });
-      
-      server.on('error', (err) => {
-        reject(err);
+    const identity = this.options.keystore;
+    if (!identity) {
+      this.log('warn', '⚠️ 粘性端口需要配置keystore身份，已忽略');
+      return null;
+    }
+
+    const entry = (await identity.keystore.list()).find(info => info.name === identity.name);
+    if (!entry) {
+      return null;
+    }
+    try {
+      const port = Number(new URL(this.options.didResolver.getDocumentUrl(entry.did)).port);
+      return port > 0 ? port : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ANP协议路由：DID文档、智能体描述和通信端点
+   */
+  private createRoutes(): RouteConfig[] {
+    // DID文档端点（did:wba:host%3Aport:auto-agent 解析到 /auto-agent/did.json），支持versionId / versionTime查询
+    const serveDIDDocument = (req: express.Request, res: express.Response) => {
+      const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+      const { status, body } = this.didConfig.getDIDDocumentResponse({
+        versionId: query('versionId'),
+        versionTime: query('versionTime')
       });
-    });
+      res.status(status).json(body);
+    };
+
+    return [
+      { method: 'GET', path: '/.well-known/did.json', handler: serveDIDDocument },
+      { method: 'GET', path: '/auto-agent/did.json', handler: serveDIDDocument },
+      // 智能体描述文档端点
+      {
+        method: 'GET',
+        path: '/agents/auto-agent/ad.json',
+        handler: (req, res) => {
+          res.json(this.didConfig.getAgentDescription());
+        }
+      },
+      // ANP通信端点
+      {
+        method: 'POST',
+        path: '/anp/api',
+        handler: (req, res) => this.handleANPRequest(req, res)
+      }
+    ];
   }
 
   /**
-   * 检查端口是否可用
+   * 处理ANP请求
    */
-  private async isPortAvailable(port: number): Promise<boolean> {
-    return new Promise((resolve) => {
-      const server = net.createServer();
+  private async handleANPRequest(req: express.Request, res: express.Response): Promise<void> {
+    // 已停用的智能体不再提供服务（也无法签发令牌或加密响应）
+    if (this.didConfig.isDeactivated()) {
+      res.status(DID_DEACTIVATED_STATUS).json({
+        error: 'Gone',
+        code: 'did_deactivated',
+        message: `DID已停用: ${this.didConfig.getDID()}`
+      });
+      return;
+    }
+
+    try {
+      // 验证请求签名
+      const result = await this.verifyRequest(req);
+      if (!result.valid) {
+        this.log('warn', `请求认证失败 [${result.error}]: ${result.message}`);
+        res.status(401).json({
+          error: 'Unauthorized',
+          code: result.error,
+          message: result.message
+        });
+        return;
+      }
       
-      server.listen(port, () => {
-        server.close(() => {
-          resolve(true);
+      // 加密请求：解密后处理，并将响应加密给发送方
+      const encrypted = isEncryptedEnvelope(req.body);
+      if (encrypted && req.body.sender !== result.did) {
+        this.log('warn', `加密消息发送方 ${req.body.sender} 与认证身份 ${result.did} 不一致`);
+        res.status(403).json({
+          error: 'Forbidden',
+          code: 'sender_mismatch',
+          message: '加密消息发送方与认证身份不一致'
         });
-      });
+        return;
+      }
+
+      let message: ANPRequest;
+      try {
+        message = encrypted ? this.decryptRequest(req.body) : req.body;
+      } catch (error) {
+        this.log('warn', `解密请求失败: ${error}`);
+        res.status(400).json({
+          error: 'Bad Request',
+          code: 'invalid_encrypted_message',
+          message: '无法解密请求'
+        });
+        return;
+      }
+
+      // 检查需要人类授权的操作
+      const humanAuthorization = await this.checkHumanAuthorization(req, message, result.did!);
+      if (!humanAuthorization.valid) {
+        this.log('warn', `人类授权检查失败 [${humanAuthorization.error}]: ${humanAuthorization.message}`);
+        res.status(403).json({
+          error: 'Forbidden',
+          code: humanAuthorization.error,
+          message: humanAuthorization.message
+        });
+        return;
+      }
       
-      server.on('error', () => {
-        resolve(false);
-      });
-    });
+      // 检查请求方出示的凭证
+      const presentation = await this.checkPresentation(message, result, req.get('host') || '');
+      if (!presentation.valid) {
+        this.log('warn', `凭证检查失败 [${presentation.error}]: ${presentation.message}`);
+        res.status(403).json({
+          error: 'Forbidden',
+          code: presentation.error,
+          message: presentation.message
+        });
+        return;
+      }
+      
+      // 所有检查通过后才签发访问令牌（仅DIDWba认证），后续请求可直接使用
+      if (!parseBearerToken(req.get('authorization'))) {
+        await this.issueAccessToken(res, result.did!, req.get('host') || '');
+      }
+      
+      // 处理业务逻辑
+      const response = await this.processMessage(message);
+      res.json(encrypted ? await this.encryptResponse(response, result.did!) : response);
+      
+    } catch (error) {
+      this.log('error', `处理ANP请求失败: ${error}`);
+      res.status(500).json({ error: 'Internal server error' });
+    }
   }
 
   /**
-   * 获取本地IP地址
+   * 解密端到端加密请求
    */
-  private async getLocalIP(): Promise<string> {
-    const interfaces = os.networkInterfaces();
-    
-    for (const name of Object.keys(interfaces)) {
-      const iface = interfaces[name];
-      if (iface) {
-        for (const alias of iface) {
-          if (alias.family === 'IPv4' && !alias.internal) {
-            return alias.address;
-          }
-        }
-      }
+  private decryptRequest(envelope: EncryptedEnvelope): ANPRequest {
+    const ownKey = findBundleKey(this.didConfig.getKeys(), 'keyAgreement');
+    if (!ownKey) {
+      throw new Error('本智能体未配置密钥协商密钥');
     }
-    
-    return '127.0.0.1'; // 回退到localhost
+
+    const { privateKey } = importPrivateKey(ownKey.entry.privateKey);
+    return decryptMessage(envelope, privateKey, ownKey.id);
   }
 
   /**
-   * 自动生成DID和密钥
+   * 将响应加密给请求方
    */
-  private async generateDIDAndKeys(): Promise<void> {
-    // 使用本地IP和端口生成DID
-    const domain = `${this.localIP}:${this.autoPort}`;
-    const generator = new ANPKeyGenerator(domain, 'auto-agent');
-    
-    const keyPair = await generator.generateKeyPair(KeyType.ED25519);
-    
-    this.autoDid = keyPair.did;
-    this.privateKey = keyPair.private_key;
-    
-    // 解析DID文档
-    this.didDocument = JSON.parse(keyPair.did_document);
-    
-    // 更新服务端点URL
-    if (this.didDocument.service && this.didDocument.service[0]) {
-      this.didDocument.service[0].serviceEndpoint = 
-        `http://${this.localIP}:${this.autoPort}/anp/api`;
+  private async encryptResponse(response: ANPResponse, senderDid: string): Promise<EncryptedEnvelope> {
+    const senderMethod = findKeyAgreementMethod(await this.resolveDIDDocument(senderDid));
+    if (!senderMethod) {
+      throw new Error(`发送方 ${senderDid} 的DID文档中没有X25519密钥协商方法`);
     }
-    
-    // 生成智能体描述文档
-    this.autoDescription = {
-      "@context": {
-        "@vocab": "https://schema.org/",
-        "ad": "https://service.agent-network-protocol.com/ad#"
-      },
-      "@type": "ad:AgentDescription",
-      "name": this.options.agentName,
-      "did": this.autoDid,
-      "description": "Automatically configured ANP agent via SDK",
-      "version": "1.0.0",
-      "created": new Date().toISOString(),
-      "ad:interfaces": this.options.interfaces.map(iface => ({
-        "@type": `ad:${iface.type}`,
-        "url": iface.url || `http://${this.localIP}:${this.autoPort}/anp/api`,
-        "description": iface.description
-      }))
-    };
+    return encryptMessage(response, senderMethod, this.didConfig.getDID());
   }
 
   /**
-   * 启动HTTP服务器
+   * 检查请求的人类授权凭证（仅对配置的操作生效）
    */
-  private async startHTTPServer(): Promise<void> {
-    this.app = express();
-    this.app.use(express.json());
-    
-    return new Promise((resolve, reject) => {
-      this.server = this.app!.listen(this.autoPort!, (err?: Error) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
-    });
+  private async checkHumanAuthorization(
+    req: express.Request,
+    message: ANPRequest,
+    senderDid: string
+  ): Promise<HumanAuthorizationVerificationResult> {
+    const actions = this.options.humanAuthorizationActions;
+    const action = message.action;
+    if (!action || !(actions.includes('*') || actions.includes(action))) {
+      return { valid: true };
+    }
+
+    // 出示随每次认证重新生成，不属于人类批准的内容
+    const { presentation, ...payload } = message;
+    const proof = decodeHumanAuthorizationProof(req.get(HUMAN_AUTHORIZATION_HEADER));
+    return this.humanAuthorizationVerifier.verify(proof, await this.resolveDIDDocument(senderDid), action, payload, req.get('host') || '');
   }
 
   /**
-   * 设置路由
+   * 验证请求附带的出示：挑战值为本次请求的DIDWba nonce，出示方必须是认证身份
    */
-  private setupRoutes(): void {
-    if (!this.app) {
-      throw new Error('HTTP server not started');
+  private async checkPresentation(
+    message: ANPRequest,
+    auth: DIDWbaVerificationResult | AccessTokenVerificationResult,
+    host: string
+  ): Promise<PresentationVerificationResult> {
+    const required = this.options.requiredCredentialTypes;
+    if (!message.presentation) {
+      if (required.length > 0) {
+        return { valid: false, error: 'missing_credential', message: `请求需要出示凭证: ${required.join(', ')}` };
+      }
+      return { valid: true };
     }
 
-    // DID文档端点
-    this.app.get('/.well-known/did.json', (req, res) => {
-      res.json(this.didDocument);
-    });
-    
-    // 智能体描述文档端点
-    this.app.get('/agents/auto-agent/ad.json', (req, res) => {
-      res.json(this.autoDescription);
-    });
-    
-    // ANP通信端点
-    this.app.post('/anp/api', (req, res) => {
-      this.handleANPRequest(req, res);
-    });
-    
-    // 健康检查端点
-    this.app.get('/health', (req, res) => {
-      res.json({
-        status: 'healthy',
-        did: this.autoDid,
-        port: this.autoPort,
-        endpoint: this.getEndpoint(),
-        timestamp: new Date().toISOString()
-      });
-    });
-    
-    // 配置信息端点
-    this.app.get('/config', (req, res) => {
-      res.json(this.getConfig());
+    if (message.presentation.holder !== auth.did) {
+      return { valid: false, error: 'holder_mismatch', message: `出示方 ${message.presentation.holder} 与认证身份 ${auth.did} 不一致` };
+    }
+
+    // 令牌认证的请求没有nonce，出示只校验domain
+    const result = await verifyPresentation(message.presentation, (did) => this.resolveDIDDocument(did), {
+      challenge: 'nonce' in auth ? auth.nonce : undefined,
+      domain: host,
+      trustedIssuers: this.options.trustedIssuers
     });
+    if (!result.valid) {
+      return result;
+    }
+
+    const presentedTypes = new Set(result.credentials!.flatMap(credential => credential.type));
+    const missing = required.filter(type => !presentedTypes.has(type));
+    if (missing.length > 0) {
+      return { valid: false, error: 'missing_credential', message: `缺少凭证: ${missing.join(', ')}` };
+    }
+    return result;
   }
 
   /**
-   * 处理ANP请求
+   * 验证请求的DIDWba签名或访问令牌
+   * 访问令牌同样复查持有方DID是否已停用，解析结果沿用DID解析器的缓存，停用最迟在缓存过期后生效
    */
-  private async handleANPRequest(req: express.Request, res: express.Response): Promise<void> {
-    try {
-      // 验证请求签名（简化版）
-      const isValid = await this.verifyRequest(req);
-      if (!isValid) {
-        res.status(401).json({ error: 'Invalid signature' });
-        return;
+  private async verifyRequest(req: express.Request): Promise<DIDWbaVerificationResult | AccessTokenVerificationResult> {
+    const bearerToken = parseBearerToken(req.get('authorization'));
+    if (bearerToken) {
+      if (!this.tokenIssuer) {
+        return { valid: false, error: 'invalid_token', message: '本智能体未启用访问令牌' };
       }
-      
-      // 处理业务逻辑
-      const response = await this.processMessage(req.body);
-      res.json(response);
-      
-    } catch (error) {
-      this.log('error', `处理ANP请求失败: ${error}`);
-      res.status(500).json({ error: 'Internal server error' });
+      const result = await this.tokenIssuer.verify(bearerToken, req.get('host') || '');
+      if (!result.valid) {
+        return result;
+      }
+      try {
+        await this.resolveDIDDocument(result.did!);
+      } catch (error) {
+        if (error instanceof DIDDeactivatedError) {
+          return { valid: false, error: 'did_deactivated', message: `DID已停用，拒绝请求: ${result.did}` };
+        }
+        return { valid: false, error: 'did_resolution_failed', message: `无法解析DID ${result.did}: ${error}` };
+      }
+      return result;
+    }
+    return this.verifier.verify(req.get('authorization'), req.get('host') || '');
+  }
+
+  /**
+   * 初始化访问令牌签发方
+   * 未指定签名密钥时每次签发和验证都取DID配置的当前签名器，密钥轮换后旧密钥签发的令牌随即失效
+   */
+  private setupAccessTokens(): void {
+    if (this.options.accessTokenLifetime <= 0) {
+      this.tokenIssuer = null;
+      return;
+    }
+    this.tokenIssuer = new AccessTokenIssuer({
+      did: this.didConfig.getDID(),
+      privateKey: this.options.accessTokenSigningKey || (() => this.didConfig.getSigner()),
+      lifetime: this.options.accessTokenLifetime
+    });
+  }
+
+  /**
+   * DIDWba认证成功后在响应头中签发访问令牌
+   */
+  private async issueAccessToken(res: express.Response, did: string, service: string): Promise<void> {
+    if (!this.tokenIssuer) {
+      return;
     }
+    const { token } = await this.tokenIssuer.issue(did, service);
+    res.set('Authorization', `${BEARER_SCHEME} ${token}`);
   }
 
   /**
-   * 验证请求（简化版）
+   * 解析DID文档
    */
-  private async verifyRequest(req: express.Request): Promise<boolean> {
-    // 这里应该实现完整的DID签名验证
-    // 为了演示，这里简化处理
-    return true;
+  private async resolveDIDDocument(did: string, noCache?: boolean): Promise<DIDDocument> {
+    if (did === this.didConfig.getDID()) {
+      return this.didConfig.getDIDDocument();
+    }
+    return this.options.didResolver.resolve(did, noCache);
   }
 
   /**
@@ -341,7 +519,7 @@ export class AutoConfigAgent {
     return {
       response: `收到消息: ${message.content || message.message || 'Hello'}`,
       timestamp: new Date().toISOString(),
-      did: this.autoDid!
+      did: this.didConfig.getDID()
     };
   }
 
@@ -359,7 +537,7 @@ export class AutoConfigAgent {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          agent: this.autoDescription,
+          agent: this.didConfig.getAgentDescription(),
           endpoint: this.getEndpoint()
         })
       });
@@ -374,22 +552,56 @@ export class AutoConfigAgent {
     }
   }
 
+  /**
+   * 从发现服务注销
+   */
+  private async deregisterFromDiscovery(): Promise<void> {
+    if (!this.options.discoveryService) {
+      return;
+    }
+
+    try {
+      const response = await fetch(this.options.discoveryService, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          did: this.didConfig.getDID(),
+          endpoint: this.getEndpoint()
+        })
+      });
+      
+      if (response.ok) {
+        this.log('info', '✅ 已从发现服务注销');
+      } else {
+        this.log('warn', '⚠️ 发现服务注销失败');
+      }
+    } catch (error) {
+      this.log('warn', `⚠️ 发现服务不可用: ${error}`);
+    }
+  }
+
   /**
    * 获取配置信息
    */
   public getConfig(): AgentConfig {
-    if (!this.autoDid || !this.autoPort || !this.localIP || !this.privateKey) {
+    if (!this.autoPort || !this.localIP) {
       throw new Error('Agent not configured yet. Call autoSetup() first.');
     }
 
+    const didConfig = this.didConfig.getConfig();
     return {
-      did: this.autoDid,
+      did: didConfig.did,
       port: this.autoPort,
       endpoint: this.getEndpoint(),
       localIP: this.localIP,
-      privateKey: this.privateKey,
-      didDocument: this.didDocument,
-      agentDescription: this.autoDescription
+      privateKey: didConfig.privateKey,
+      signer: didConfig.signer,
+      verificationMethod: didConfig.didDocument.authentication[0].split('#')[1],
+      keyAgreementPrivateKey: findBundleKey(didConfig.keys, 'keyAgreement')?.entry.privateKey,
+      keys: didConfig.keys,
+      didDocument: didConfig.didDocument,
+      agentDescription: didConfig.agentDescription,
+      certificate: this.http.getCertificate() || undefined
     };
   }
 
@@ -400,21 +612,49 @@ export class AutoConfigAgent {
     if (!this.localIP || !this.autoPort) {
       throw new Error('Agent not configured yet. Call autoSetup() first.');
     }
-    return `http://${this.localIP}:${this.autoPort}/anp/api`;
+    return `${this.http.getEndpoint()}/anp/api`;
+  }
+
+  /**
+   * 获取HTTP自动配置模块，例如添加路由
+   */
+  public getHTTPAutoConfig(): HTTPAutoConfig {
+    return this.http;
+  }
+
+  /**
+   * 获取DID自动配置模块，例如更新DID文档、轮换密钥或停用DID
+   */
+  public getDIDAutoConfig(): DIDAutoConfig {
+    return this.didConfig;
   }
 
   /**
-   * 停止服务
+   * 优雅停止：先从发现服务注销，再排空HTTP服务器；重复调用返回同一个Promise
    */
   public async stop(): Promise<void> {
-    if (this.server) {
-      return new Promise((resolve) => {
-        this.server.close(() => {
-          this.log('info', '🛑 ANP Agent 已停止');
-          this.isRunning = false;
-          resolve();
-        });
-      });
+    if (!this.stopping) {
+      this.stopping = this.shutdown();
+    }
+    return this.stopping;
+  }
+
+  /**
+   * 执行停止流程
+   */
+  private async shutdown(): Promise<void> {
+    this.removeSignalHandlers?.();
+    this.removeSignalHandlers = null;
+
+    const wasRunning = this.isRunning;
+    this.isRunning = false;
+    if (wasRunning && this.options.autoStart !== false) {
+      await this.deregisterFromDiscovery();
+    }
+
+    await this.http.stop();
+    if (wasRunning) {
+      this.log('info', '🛑 ANP Agent 已停止');
     }
   }
 
@@ -439,47 +679,261 @@ export class AutoConfigAgent {
   }
 }
 
+/**
+ * ANP客户端配置
+ */
+export interface ANPClientOptions {
+  /** 是否对请求和响应进行端到端加密 */
+  encrypt?: boolean;
+  /** 密钥协商（X25519）私钥，加密模式下用于解密响应 */
+  keyAgreementPrivateKey?: string;
+  /** 解析目标智能体DID的解析器，默认使用与目标地址相同的协议 */
+  didResolver?: DIDResolver;
+  /** 发送请求和解析DID使用的fetch函数，默认使用全局fetch */
+  fetch?: FetchFunction;
+  /** 额外信任的CA证书（PEM），例如对方的自签名证书；未指定fetch时生效 */
+  ca?: string | string[];
+  /** 对需要人工批准的操作签署人类授权凭证 */
+  humanAuthorizer?: HumanAuthorizer;
+  /** 每次请求时出示的可验证凭证（需要提供verificationMethod） */
+  credentials?: VerifiableCredential[];
+}
+
+/**
+ * 单次请求的选项
+ */
+export interface SendRequestOptions {
+  /** 目标智能体DID，加密模式下必须提供，用于解析并核对对方的密钥协商密钥 */
+  recipientDID?: string;
+  /** 展示给人类审批人的操作说明 */
+  approvalDescription?: string;
+  /** 本次请求出示的凭证，覆盖客户端默认配置 */
+  credentials?: VerifiableCredential[];
+}
+
 /**
  * ANP客户端类
  */
 export class ANPClient {
   private did: string;
-  private privateKey: string;
+  private signer: Signer;
+  private verificationMethod?: string;
+  private options: ANPClientOptions;
+  private fetch: FetchFunction;
+  private resolvers: Map<string, DIDResolver> = new Map();
+  private accessTokens: Map<string, { token: string; expiresAt: number }> = new Map();
 
-  constructor(did: string, privateKey: string) {
+  /**
+   * @param privateKey 私钥（PKCS#8 PEM或JWK）或签名器
+   * @param verificationMethod 签名所用验证方法的ID片段，省略时使用签名器的keyId；
+   *                           私钥且省略时由对方使用DID文档中的首个authentication方法
+   */
+  constructor(did: string, privateKey: string | Signer, verificationMethod?: string, options: ANPClientOptions = {}) {
     this.did = did;
-    this.privateKey = privateKey;
+    this.signer = toSigner(privateKey, verificationMethod);
+    this.verificationMethod = verificationMethod || (typeof privateKey === 'string' ? undefined : privateKey.keyId);
+    this.options = options;
+    this.fetch = options.fetch
+      || (options.ca ? createTrustedFetch(options.ca) : (url: string, init?: RequestInit) => fetch(url, init));
+
+    if (options.encrypt && !options.keyAgreementPrivateKey) {
+      throw new Error('加密模式需要提供keyAgreementPrivateKey');
+    }
+    if (options.credentials && options.credentials.length > 0 && !this.verificationMethod) {
+      throw new Error('出示凭证需要提供verificationMethod');
+    }
   }
 
   /**
    * 发送请求到其他智能体
    */
-  async sendRequest(targetUrl: string, message: ANPRequest): Promise<ANPResponse> {
-    const signature = this.generateSignature(message);
-    
-    const response = await fetch(targetUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `DIDWba did="${this.did}", signature="${signature}"`
-      },
-      body: JSON.stringify(message)
-    });
+  async sendRequest(targetUrl: string, message: ANPRequest, requestOptions: SendRequestOptions = {}): Promise<ANPResponse> {
+    if (this.options.encrypt && !requestOptions.recipientDID) {
+      throw new Error('加密模式需要提供recipientDID');
+    }
+
+    const service = new URL(targetUrl).host;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    // 需要人工批准的操作：等待审批并附带授权凭证（重新认证时复用）
+    const authorizer = this.options.humanAuthorizer;
+    if (authorizer && authorizer.requiresApproval(message.action)) {
+      const proof = await authorizer.authorize(message.action!, message, service, requestOptions.approvalDescription);
+      headers[HUMAN_AUTHORIZATION_HEADER] = encodeHumanAuthorizationProof(proof);
+    }
+
+    // 优先使用缓存的访问令牌，被拒绝时改用DIDWba重新认证
+    const accessToken = this.getAccessToken(service);
+    let response = await this.postMessage(targetUrl, service, message, headers, requestOptions, accessToken);
+    if (response.status === 401 && accessToken) {
+      this.accessTokens.delete(service);
+      response = await this.postMessage(targetUrl, service, message, headers, requestOptions, null);
+    }
     
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
+    this.storeAccessToken(service, response.headers.get('authorization'));
     
-    return await response.json() as ANPResponse;
+    const result = await response.json();
+    // 加密模式下只接受对方加密的响应，拒绝明文或由其他身份加密的内容
+    if (this.options.encrypt) {
+      if (!isEncryptedEnvelope(result)) {
+        throw new Error('加密模式下收到未加密的响应');
+      }
+      if (result.sender !== requestOptions.recipientDID) {
+        throw new Error(`加密响应发送方 ${result.sender} 与recipientDID ${requestOptions.recipientDID} 不一致`);
+      }
+    }
+    if (isEncryptedEnvelope(result)) {
+      if (!this.options.keyAgreementPrivateKey) {
+        throw new Error('收到加密响应，但未配置keyAgreementPrivateKey');
+      }
+      const { privateKey } = importPrivateKey(this.options.keyAgreementPrivateKey);
+      return decryptMessage(result, privateKey) as ANPResponse;
+    }
+    return result as ANPResponse;
+  }
+
+  /**
+   * 清除缓存的访问令牌，未指定服务时清除全部
+   */
+  public clearAccessTokens(service?: string): void {
+    if (service) {
+      this.accessTokens.delete(service);
+    } else {
+      this.accessTokens.clear();
+    }
+  }
+
+  /**
+   * 认证并发送一次请求
+   * @param accessToken 访问令牌，为null时使用DIDWba签名认证
+   */
+  private async postMessage(
+    targetUrl: string,
+    service: string,
+    message: ANPRequest,
+    baseHeaders: Record<string, string>,
+    requestOptions: SendRequestOptions,
+    accessToken: string | null
+  ): Promise<Response> {
+    const authorization = accessToken
+      ? `${BEARER_SCHEME} ${accessToken}`
+      : await this.generateAuthorizationHeader(service);
+
+    // 出示凭证；DIDWba认证时以本次nonce作为挑战值防止重放
+    const credentials = requestOptions.credentials || this.options.credentials;
+    if (credentials && credentials.length > 0) {
+      if (!this.verificationMethod) {
+        throw new Error('出示凭证需要提供verificationMethod');
+      }
+      message = {
+        ...message,
+        presentation: await createPresentation({
+          holder: this.did,
+          privateKey: this.signer,
+          verificationMethod: `${this.did}#${this.verificationMethod}`,
+          credentials,
+          challenge: accessToken ? undefined : parseDIDWbaHeader(authorization)!.nonce,
+          domain: service
+        })
+      };
+    }
+
+    const body = this.options.encrypt
+      ? encryptMessage(message, await this.getRecipientKeyAgreement(requestOptions.recipientDID!, targetUrl), this.did)
+      : message;
+    
+    return this.fetch(targetUrl, {
+      method: 'POST',
+      headers: { ...baseHeaders, 'Authorization': authorization },
+      body: JSON.stringify(body)
+    });
+  }
+
+  /**
+   * 获取未过期的访问令牌（预留时钟偏差）
+   */
+  private getAccessToken(service: string): string | null {
+    const cached = this.accessTokens.get(service);
+    if (!cached) {
+      return null;
+    }
+    if (cached.expiresAt - 5000 <= Date.now()) {
+      this.accessTokens.delete(service);
+      return null;
+    }
+    return cached.token;
+  }
+
+  /**
+   * 缓存响应中签发的访问令牌
+   */
+  private storeAccessToken(service: string, authorization: string | null): void {
+    const token = parseBearerToken(authorization);
+    const expiresAt = token && getAccessTokenExpiry(token);
+    if (token && expiresAt) {
+      this.accessTokens.set(service, { token, expiresAt });
+    }
   }
 
   /**
-   * 生成签名（简化版）
+   * 获取目标智能体的密钥协商方法
+   * 必须通过预期的DID解析（校验文档id），不能信任目标地址返回的任意文档，否则中间人可替换密钥
    */
-  private generateSignature(data: ANPRequest): string {
-    // 这里应该实现完整的DID签名
-    // 为了演示，返回一个模拟签名
-    return 'mock_signature_' + Date.now();
+  private async getRecipientKeyAgreement(recipientDID: string, targetUrl: string): Promise<VerificationMethod> {
+    const didDocument = await this.getResolver(targetUrl).resolve(recipientDID);
+
+    const method = findKeyAgreementMethod(didDocument);
+    if (!method) {
+      throw new Error(`目标 ${recipientDID} 的DID文档中没有X25519密钥协商方法`);
+    }
+    if (method.id.split('#')[0] !== recipientDID) {
+      throw new Error(`密钥协商方法 ${method.id} 不属于 ${recipientDID}`);
+    }
+    return method;
+  }
+
+  /**
+   * 解析DID使用的解析器：未配置时按目标地址的协议创建，并使用客户端的fetch
+   */
+  private getResolver(targetUrl: string): DIDResolver {
+    if (this.options.didResolver) {
+      return this.options.didResolver;
+    }
+
+    const protocol = new URL(targetUrl).protocol === 'https:' ? 'https' : 'http';
+    let resolver = this.resolvers.get(protocol);
+    if (!resolver) {
+      resolver = new DIDResolver({ protocol, fetch: this.fetch });
+      this.resolvers.set(protocol, resolver);
+    }
+    return resolver;
+  }
+
+  /**
+   * 生成DIDWba认证头
+   */
+  private async generateAuthorizationHeader(service: string): Promise<string> {
+    const generator = new ANPKeyGenerator(service);
+    const signatureData = generator.generateSignatureData(service, this.did);
+
+    let signature = await this.signer.sign(Buffer.from(generator.jcsCanonicalize(signatureData), 'utf8'));
+    if (this.signer.keyType === KeyType.SECP256K1) {
+      // DIDWba签名沿用DER编码
+      signature = encodeSecp256k1Signature(secp256k1.Signature.fromCompact(signature), 'der');
+    }
+
+    return buildDIDWbaHeader({
+      did: this.did,
+      nonce: signatureData.nonce,
+      timestamp: signatureData.timestamp,
+      verificationMethod: this.verificationMethod,
+      signature: Buffer.from(signature).toString('base64url')
+    });
   }
 }
 
@@ -499,7 +953,7 @@ export class ANPSDK {
    * 主要API：一键启动智能体
    */
   async start(): Promise<AgentConfig & { stop: () => Promise<void> }> {
-    if (this.isRunning) {
+    if (this.isAgentRunning()) {
       throw new Error('Agent is already running');
     }
 
@@ -514,7 +968,7 @@ export class ANPSDK {
   }
 
   /**
-   * 停止智能体
+   * 停止智能体，连接全部释放后返回
    */
   async stop(): Promise<void> {
     if (this.agent) {
@@ -524,18 +978,26 @@ export class ANPSDK {
     }
   }
 
+  /**
+   * 获取运行中的智能体，可通过其访问HTTP和DID配置模块
+   */
+  getAgent(): AutoConfigAgent | null {
+    return this.agent;
+  }
+
   /**
    * 创建客户端
    */
-  createClient(did: string, privateKey: string): ANPClient {
-    return new ANPClient(did, privateKey);
+  createClient(did: string, privateKey: string | Signer, verificationMethod?: string, options?: ANPClientOptions): ANPClient {
+    return new ANPClient(did, privateKey, verificationMethod, options);
   }
 
   /**
    * 检查是否正在运行
    */
   isAgentRunning(): boolean {
-    return this.isRunning;
+    // 智能体可能已因收到停止信号自行停止
+    return this.isRunning && !!this.agent?.isAgentRunning();
   }
 }
 
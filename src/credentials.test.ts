@@ -0,0 +1,69 @@
+import { describe, expect, it } from '@jest/globals';
+import { createPresentation, issueCredential, verifyCredential, verifyPresentation } from './credentials';
+import { generateDIDKey, resolveDIDKey } from './did-key';
+
+const resolveDID = async (did: string) => resolveDIDKey(did);
+
+describe('可验证凭证', () => {
+  it('签发、出示并验证凭证', async () => {
+    const issuer = await generateDIDKey();
+    const holder = await generateDIDKey();
+
+    const credential = await issueCredential({
+      issuer: issuer.did,
+      privateKey: issuer.private_key,
+      verificationMethod: resolveDIDKey(issuer.did).assertionMethod![0] as string,
+      credentialSubject: { id: holder.did, role: 'operator' },
+      type: 'AgentRoleCredential'
+    });
+    expect(await verifyCredential(credential, resolveDID, { trustedIssuers: [issuer.did] })).toMatchObject({ valid: true });
+
+    const presentation = await createPresentation({
+      holder: holder.did,
+      privateKey: holder.private_key,
+      verificationMethod: resolveDIDKey(holder.did).authentication[0] as string,
+      credentials: [credential],
+      challenge: 'nonce-1',
+      domain: 'example.com'
+    });
+
+    const result = await verifyPresentation(presentation, resolveDID, { challenge: 'nonce-1', domain: 'example.com' });
+    expect(result).toMatchObject({ valid: true, holder: holder.did });
+    expect((await verifyPresentation(presentation, resolveDID, { challenge: 'nonce-2', domain: 'example.com' })).valid).toBe(false);
+  });
+
+  it('拒绝不受信任的签发方和过期凭证', async () => {
+    const issuer = await generateDIDKey();
+    const credential = await issueCredential({
+      issuer: issuer.did,
+      privateKey: issuer.private_key,
+      verificationMethod: resolveDIDKey(issuer.did).assertionMethod![0] as string,
+      credentialSubject: { id: 'did:wba:example.com' },
+      validUntil: '2030-01-01T00:00:00Z'
+    });
+
+    expect(await verifyCredential(credential, resolveDID, { trustedIssuers: ['did:wba:other.com'] }))
+      .toMatchObject({ valid: false, error: 'untrusted_issuer' });
+    expect(await verifyCredential(credential, resolveDID, { now: new Date('2031-01-01T00:00:00Z') }))
+      .toMatchObject({ valid: false, error: 'credential_expired' });
+  });
+
+  it('出示中的凭证主体必须是出示方', async () => {
+    const issuer = await generateDIDKey();
+    const holder = await generateDIDKey();
+    const credential = await issueCredential({
+      issuer: issuer.did,
+      privateKey: issuer.private_key,
+      verificationMethod: resolveDIDKey(issuer.did).assertionMethod![0] as string,
+      credentialSubject: { id: 'did:wba:someone-else.com' }
+    });
+    const presentation = await createPresentation({
+      holder: holder.did,
+      privateKey: holder.private_key,
+      verificationMethod: resolveDIDKey(holder.did).authentication[0] as string,
+      credentials: [credential]
+    });
+
+    expect(await verifyPresentation(presentation, resolveDID)).toMatchObject({ valid: false, error: 'subject_mismatch' });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * ANP可验证凭证模块
+ * 签发和验证W3C Verifiable Credentials / Presentations（Data Integrity证明）
+ */
+
+import { DIDDocument } from './anp-key-generator';
+import {
+  DataIntegrityErrorCode,
+  DataIntegrityProof,
+  signDataIntegrity,
+  verifyDataIntegrity
+} from './data-integrity';
+import { Signer } from './signer';
+
+// VC数据模型2.0上下文
+export const CREDENTIALS_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+// 类型定义
+export interface CredentialSubject {
+  /** 凭证主体DID */
+  id?: string;
+  [claim: string]: any;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id?: string;
+  type: string[];
+  /** 签发方DID */
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: CredentialSubject;
+  proof?: DataIntegrityProof;
+}
+
+export interface VerifiablePresentation {
+  '@context': string[];
+  id?: string;
+  type: string[];
+  /** 出示方DID */
+  holder: string;
+  verifiableCredential: VerifiableCredential[];
+  proof?: DataIntegrityProof;
+}
+
+export interface IssueCredentialOptions {
+  issuer: string;
+  /** 签发方私钥（PKCS#8 PEM或JWK）或签名器 */
+  privateKey: string | Signer;
+  /** 签发方assertionMethod中的验证方法ID */
+  verificationMethod: string;
+  credentialSubject: CredentialSubject;
+  /** 附加在VerifiableCredential之后的凭证类型 */
+  type?: string | string[];
+  id?: string;
+  validFrom?: string;
+  validUntil?: string;
+}
+
+export interface CreatePresentationOptions {
+  holder: string;
+  /** 出示方私钥（PKCS#8 PEM或JWK）或签名器 */
+  privateKey: string | Signer;
+  /** 出示方authentication中的验证方法ID */
+  verificationMethod: string;
+  credentials: VerifiableCredential[];
+  /** 验证方提供的一次性挑战值，防止出示被重放 */
+  challenge?: string;
+  /** 验证方域名 */
+  domain?: string;
+}
+
+export interface CredentialVerifyOptions {
+  /** 受信任的签发方DID，为空表示接受任意签发方 */
+  trustedIssuers?: string[];
+  /** 校验有效期使用的时间，默认当前时间 */
+  now?: Date;
+}
+
+export interface PresentationVerifyOptions extends CredentialVerifyOptions {
+  challenge?: string;
+  domain?: string;
+  /** 是否要求凭证主体为出示方本人，默认true */
+  requireSubjectIsHolder?: boolean;
+}
+
+export type CredentialErrorCode =
+  | DataIntegrityErrorCode
+  | 'invalid_credential'
+  | 'not_yet_valid'
+  | 'credential_expired'
+  | 'issuer_mismatch'
+  | 'untrusted_issuer'
+  | 'invalid_presentation'
+  | 'holder_mismatch'
+  | 'subject_mismatch'
+  | 'missing_credential';
+
+export interface CredentialVerificationResult {
+  valid: boolean;
+  credential?: VerifiableCredential;
+  error?: CredentialErrorCode;
+  message?: string;
+}
+
+export interface PresentationVerificationResult {
+  valid: boolean;
+  holder?: string;
+  /** 验证通过的凭证 */
+  credentials?: VerifiableCredential[];
+  error?: CredentialErrorCode;
+  message?: string;
+}
+
+/**
+ * 签发可验证凭证
+ */
+export async function issueCredential(options: IssueCredentialOptions): Promise<VerifiableCredential> {
+  const extraTypes = options.type === undefined ? [] : ([] as string[]).concat(options.type);
+
+  const credential: VerifiableCredential = {
+    '@context': [CREDENTIALS_V2_CONTEXT],
+    ...(options.id ? { id: options.id } : {}),
+    type: ['VerifiableCredential', ...extraTypes.filter(t => t !== 'VerifiableCredential')],
+    issuer: options.issuer,
+    validFrom: options.validFrom || new Date().toISOString(),
+    ...(options.validUntil ? { validUntil: options.validUntil } : {}),
+    credentialSubject: options.credentialSubject
+  };
+
+  assertController(options.verificationMethod, options.issuer);
+  return signDataIntegrity(credential, options.privateKey, options.verificationMethod);
+}
+
+/**
+ * 创建可验证出示，用出示方的authentication密钥签名
+ */
+export async function createPresentation(options: CreatePresentationOptions): Promise<VerifiablePresentation> {
+  const presentation: VerifiablePresentation = {
+    '@context': [CREDENTIALS_V2_CONTEXT],
+    type: ['VerifiablePresentation'],
+    holder: options.holder,
+    verifiableCredential: options.credentials
+  };
+
+  assertController(options.verificationMethod, options.holder);
+  return signDataIntegrity(presentation, options.privateKey, options.verificationMethod, {
+    proofPurpose: 'authentication',
+    challenge: options.challenge,
+    domain: options.domain
+  });
+}
+
+/**
+ * 验证凭证：结构、有效期、签发方以及签发方DID文档中的assertionMethod签名
+ */
+export async function verifyCredential(
+  credential: VerifiableCredential,
+  resolveDID: (did: string) => Promise<DIDDocument>,
+  options: CredentialVerifyOptions = {}
+): Promise<CredentialVerificationResult> {
+  if (!credential || !Array.isArray(credential['@context']) || credential['@context'][0] !== CREDENTIALS_V2_CONTEXT
+    || !Array.isArray(credential.type) || !credential.type.includes('VerifiableCredential')
+    || typeof credential.issuer !== 'string' || !credential.credentialSubject
+    || typeof credential.validFrom !== 'string') {
+    return { valid: false, error: 'invalid_credential', message: '凭证结构无效' };
+  }
+
+  const now = (options.now || new Date()).getTime();
+  const validFrom = Date.parse(credential.validFrom);
+  if (isNaN(validFrom) || validFrom > now) {
+    return { valid: false, error: 'not_yet_valid', message: `凭证自 ${credential.validFrom} 起生效` };
+  }
+  if (credential.validUntil !== undefined) {
+    const validUntil = Date.parse(credential.validUntil);
+    if (isNaN(validUntil) || validUntil <= now) {
+      return { valid: false, error: 'credential_expired', message: `凭证已于 ${credential.validUntil} 过期` };
+    }
+  }
+
+  const trustedIssuers = options.trustedIssuers || [];
+  if (trustedIssuers.length > 0 && !trustedIssuers.includes(credential.issuer)) {
+    return { valid: false, error: 'untrusted_issuer', message: `签发方不受信任: ${credential.issuer}` };
+  }
+
+  // 证明必须由签发方自己的密钥生成
+  if (!credential.proof || proofController(credential.proof) !== credential.issuer) {
+    return {
+      valid: false,
+      error: credential.proof ? 'issuer_mismatch' : 'missing_proof',
+      message: credential.proof ? '凭证证明不是由签发方签署' : '凭证没有proof'
+    };
+  }
+
+  const result = await verifyDataIntegrity(credential, resolveDID);
+  if (!result.valid) {
+    return { valid: false, error: result.error, message: result.message };
+  }
+  return { valid: true, credential };
+}
+
+/**
+ * 验证出示：出示方authentication签名、challenge/domain以及其中每个凭证
+ */
+export async function verifyPresentation(
+  presentation: VerifiablePresentation,
+  resolveDID: (did: string) => Promise<DIDDocument>,
+  options: PresentationVerifyOptions = {}
+): Promise<PresentationVerificationResult> {
+  if (!presentation || !Array.isArray(presentation.type) || !presentation.type.includes('VerifiablePresentation')
+    || typeof presentation.holder !== 'string' || !Array.isArray(presentation.verifiableCredential)) {
+    return { valid: false, error: 'invalid_presentation', message: '出示结构无效' };
+  }
+
+  if (!presentation.proof || proofController(presentation.proof) !== presentation.holder) {
+    return {
+      valid: false,
+      error: presentation.proof ? 'holder_mismatch' : 'missing_proof',
+      message: presentation.proof ? '出示证明不是由出示方签署' : '出示没有proof'
+    };
+  }
+
+  const proofResult = await verifyDataIntegrity(presentation, resolveDID, {
+    proofPurpose: 'authentication',
+    challenge: options.challenge,
+    domain: options.domain
+  });
+  if (!proofResult.valid) {
+    return { valid: false, error: proofResult.error, message: proofResult.message };
+  }
+
+  const requireSubjectIsHolder = options.requireSubjectIsHolder !== false;
+  for (const credential of presentation.verifiableCredential) {
+    const result = await verifyCredential(credential, resolveDID, options);
+    if (!result.valid) {
+      return { valid: false, error: result.error, message: `凭证 ${credential.id || credential.type?.join(',')} 无效: ${result.message}` };
+    }
+    if (requireSubjectIsHolder && credential.credentialSubject.id !== presentation.holder) {
+      return {
+        valid: false,
+        error: 'subject_mismatch',
+        message: `凭证主体 ${credential.credentialSubject.id} 不是出示方 ${presentation.holder}`
+      };
+    }
+  }
+
+  return { valid: true, holder: presentation.holder, credentials: presentation.verifiableCredential };
+}
+
+/**
+ * 证明签名方的DID
+ */
+function proofController(proof: DataIntegrityProof): string | undefined {
+  return typeof proof.verificationMethod === 'string' ? proof.verificationMethod.split('#')[0] : undefined;
+}
+
+/**
+ * 确认验证方法属于指定DID
+ */
+function assertController(verificationMethod: string, did: string): void {
+  if (verificationMethod.split('#')[0] !== did) {
+    throw new Error(`验证方法 ${verificationMethod} 不属于 ${did}`);
+  }
+}
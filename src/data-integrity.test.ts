@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { KeyType } from './anp-key-generator';
+import { signDataIntegrity, verifyDataIntegrity } from './data-integrity';
+import { generateDIDKey, resolveDIDKey } from './did-key';
+
+const resolveDID = async (did: string) => resolveDIDKey(did);
+
+describe('Data Integrity', () => {
+  it.each([
+    [KeyType.ED25519, 'eddsa-jcs-2022'],
+    [KeyType.SECP256K1, 'ecdsa-jcs-2019']
+  ])('%s 签名的文档可以验证 (%s)', async (keyType, cryptosuite) => {
+    const identity = await generateDIDKey(keyType);
+    const verificationMethod = resolveDIDKey(identity.did).assertionMethod![0] as string;
+
+    const signed = await signDataIntegrity({ name: 'agent', tags: ['a', 'b'] }, identity.private_key, verificationMethod);
+
+    expect(signed.proof.cryptosuite).toBe(cryptosuite);
+    expect(await verifyDataIntegrity(signed, resolveDID)).toEqual({ valid: true, verificationMethod });
+  });
+
+  it('键顺序不影响验证，内容被篡改时验证失败', async () => {
+    const identity = await generateDIDKey();
+    const verificationMethod = resolveDIDKey(identity.did).assertionMethod![0] as string;
+    const signed = await signDataIntegrity({ a: 1, b: 2 }, identity.private_key, verificationMethod);
+
+    expect((await verifyDataIntegrity({ proof: signed.proof, b: 2, a: 1 }, resolveDID)).valid).toBe(true);
+    expect((await verifyDataIntegrity({ ...signed, b: 3 }, resolveDID)).valid).toBe(false);
+  });
+
+  it('校验challenge和证明用途', async () => {
+    const identity = await generateDIDKey();
+    const verificationMethod = resolveDIDKey(identity.did).authentication[0] as string;
+    const signed = await signDataIntegrity({ a: 1 }, identity.private_key, verificationMethod, {
+      proofPurpose: 'authentication',
+      challenge: 'c1'
+    });
+
+    expect((await verifyDataIntegrity(signed, resolveDID, { proofPurpose: 'authentication', challenge: 'c1' })).valid).toBe(true);
+    expect((await verifyDataIntegrity(signed, resolveDID, { proofPurpose: 'authentication', challenge: 'c2' })).valid).toBe(false);
+    expect((await verifyDataIntegrity(signed, resolveDID)).valid).toBe(false);
+  });
+
+  it('签名方不是期望的controller时返回controller_mismatch', async () => {
+    const identity = await generateDIDKey();
+    const other = await generateDIDKey();
+    const verificationMethod = resolveDIDKey(identity.did).assertionMethod![0] as string;
+    const signed = await signDataIntegrity({ a: 1 }, identity.private_key, verificationMethod);
+
+    expect((await verifyDataIntegrity(signed, resolveDID, { controller: identity.did })).valid).toBe(true);
+    expect(await verifyDataIntegrity(signed, resolveDID, { controller: other.did }))
+      .toMatchObject({ valid: false, error: 'controller_mismatch' });
+  });
+
+  it('没有proof时返回missing_proof', async () => {
+    expect(await verifyDataIntegrity({ a: 1 }, resolveDID)).toMatchObject({ valid: false, error: 'missing_proof' });
+  });
+});
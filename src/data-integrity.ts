@@ -0,0 +1,255 @@
+/**
+ * ANP Data Integrity证明模块
+ * 按eddsa-jcs-2022 / ecdsa-jcs-2019方式为JSON文档附加和验证proof
+ */
+
+import * as crypto from 'crypto';
+import { Buffer } from 'buffer';
+import * as ed25519 from '@noble/ed25519';
+import bs58 from 'bs58';
+import { DIDDocument, KeyType, VerificationMethod } from './anp-key-generator';
+import { canonicalize } from './jcs';
+import { importPublicKey } from './key-format';
+import { verifySecp256k1Hash } from './secp256k1-signature';
+import { Signer, toSigner } from './signer';
+
+// 支持的密码套件
+export type DataIntegrityCryptosuite = 'eddsa-jcs-2022' | 'ecdsa-jcs-2019';
+
+// Data Integrity证明接口
+export interface DataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: DataIntegrityCryptosuite;
+  created: string;
+  /** 签名所用验证方法ID */
+  verificationMethod: string;
+  /** 验证方法所在的DID文档验证关系 */
+  proofPurpose: string;
+  challenge?: string;
+  domain?: string;
+  /** base58btc Multibase编码的签名 */
+  proofValue: string;
+}
+
+export interface DataIntegrityProofOptions {
+  /** 默认assertionMethod */
+  proofPurpose?: string;
+  created?: string;
+  challenge?: string;
+  domain?: string;
+}
+
+export interface DataIntegrityVerifyOptions {
+  /** 期望的证明用途，默认assertionMethod */
+  proofPurpose?: string;
+  /** 要求证明携带的challenge */
+  challenge?: string;
+  /** 要求证明携带的domain */
+  domain?: string;
+  /** 要求签名验证方法属于该DID（如文档自身的主体） */
+  controller?: string;
+}
+
+export type DataIntegrityErrorCode =
+  | 'missing_proof'
+  | 'invalid_proof'
+  | 'unsupported_cryptosuite'
+  | 'controller_mismatch'
+  | 'did_resolution_failed'
+  | 'verification_method_not_found'
+  | 'verification_method_expired'
+  | 'invalid_signature';
+
+export interface DataIntegrityVerificationResult {
+  valid: boolean;
+  /** 签名所用验证方法ID */
+  verificationMethod?: string;
+  error?: DataIntegrityErrorCode;
+  message?: string;
+}
+
+/**
+ * 对文档签名，返回附加了proof的新文档（原有proof会被替换）
+ * @param privateKey 私钥（PKCS#8 PEM或JWK）或签名器
+ * @param verificationMethod 签名所用验证方法的完整ID
+ */
+export async function signDataIntegrity<T extends Record<string, any>>(
+  document: T,
+  privateKey: string | Signer,
+  verificationMethod: string,
+  options: DataIntegrityProofOptions = {}
+): Promise<T & { proof: DataIntegrityProof }> {
+  const { proof: _previous, ...unsecured } = document;
+  const signer = toSigner(privateKey);
+  const cryptosuite = getCryptosuite(signer.keyType);
+
+  const proofConfig: Omit<DataIntegrityProof, 'proofValue'> = {
+    type: 'DataIntegrityProof',
+    cryptosuite,
+    created: options.created || new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    verificationMethod,
+    proofPurpose: options.proofPurpose || 'assertionMethod',
+    ...(options.challenge ? { challenge: options.challenge } : {}),
+    ...(options.domain ? { domain: options.domain } : {})
+  };
+
+  // EdDSA直接签名hashData；ECDSA对hashData再做SHA-256，输出low-S的r||s，与签名器语义一致
+  const signature = await signer.sign(computeHashData(unsecured, proofConfig));
+
+  return {
+    ...unsecured,
+    proof: { ...proofConfig, proofValue: `z${bs58.encode(signature)}` }
+  } as T & { proof: DataIntegrityProof };
+}
+
+/**
+ * 验证文档的proof
+ * @param resolveDID 解析签名方DID；验证DID文档自身的证明时可直接返回可信的文档
+ */
+export async function verifyDataIntegrity(
+  document: Record<string, any>,
+  resolveDID: (did: string) => Promise<DIDDocument>,
+  options: DataIntegrityVerifyOptions = {}
+): Promise<DataIntegrityVerificationResult> {
+  const { proof, ...unsecured } = document || {};
+  if (!proof) {
+    return { valid: false, error: 'missing_proof', message: '文档没有proof' };
+  }
+
+  if (proof.type !== 'DataIntegrityProof' || typeof proof.verificationMethod !== 'string'
+    || typeof proof.proofValue !== 'string' || typeof proof.proofPurpose !== 'string') {
+    return { valid: false, error: 'invalid_proof', message: 'proof格式无效' };
+  }
+  if (proof.cryptosuite !== 'eddsa-jcs-2022' && proof.cryptosuite !== 'ecdsa-jcs-2019') {
+    return { valid: false, error: 'unsupported_cryptosuite', message: `不支持的密码套件: ${proof.cryptosuite}` };
+  }
+
+  const proofPurpose = options.proofPurpose || 'assertionMethod';
+  if (proof.proofPurpose !== proofPurpose) {
+    return { valid: false, error: 'invalid_proof', message: `证明用途为 ${proof.proofPurpose}，期望 ${proofPurpose}` };
+  }
+  if (options.challenge !== undefined && proof.challenge !== options.challenge) {
+    return { valid: false, error: 'invalid_proof', message: 'challenge不匹配' };
+  }
+  if (options.domain !== undefined && proof.domain !== options.domain) {
+    return { valid: false, error: 'invalid_proof', message: 'domain不匹配' };
+  }
+
+  let didDocument: DIDDocument;
+  const did = proof.verificationMethod.split('#')[0];
+  if (options.controller !== undefined && did !== options.controller) {
+    return { valid: false, error: 'controller_mismatch', message: `签名方 ${did} 不是 ${options.controller}` };
+  }
+  try {
+    didDocument = await resolveDID(did);
+  } catch (error) {
+    return { valid: false, error: 'did_resolution_failed', message: `无法解析DID ${did}: ${error}` };
+  }
+
+  const method = findRelationshipMethod(didDocument, proofPurpose, proof.verificationMethod);
+  if (!method) {
+    return {
+      valid: false,
+      error: 'verification_method_not_found',
+      message: `${proof.verificationMethod} 不在 ${did} 的${proofPurpose}关系中`
+    };
+  }
+  if (method.expires && Date.parse(method.expires) <= Date.now()) {
+    return { valid: false, error: 'verification_method_expired', message: `验证方法已于 ${method.expires} 过期` };
+  }
+
+  const { proofValue, ...proofConfig } = proof;
+  let valid = false;
+  try {
+    const { publicKey, keyType } = importPublicKey(method);
+    if (getCryptosuite(keyType) !== proof.cryptosuite || !proofValue.startsWith('z')) {
+      return { valid: false, error: 'invalid_proof', message: `密码套件 ${proof.cryptosuite} 与验证方法类型不一致` };
+    }
+
+    const hashData = computeHashData(unsecured, proofConfig);
+    const signature = bs58.decode(proofValue.slice(1));
+    if (keyType === KeyType.ED25519) {
+      valid = await ed25519.verify(signature, hashData, publicKey);
+    } else {
+      valid = signature.length === 64
+        && verifySecp256k1Hash(signature, crypto.createHash('sha256').update(hashData).digest(), publicKey);
+    }
+  } catch (error) {
+    valid = false;
+  }
+
+  if (!valid) {
+    return { valid: false, error: 'invalid_signature', message: 'proof签名验证失败' };
+  }
+  return { valid: true, verificationMethod: method.id };
+}
+
+/**
+ * 验证DID文档的proof，签名验证方法必须属于文档自身的id
+ * @param resolveDID 默认使用文档本身，此时只能证明内容与其密钥一致；需要确认来源时传入可信的解析
+ */
+export async function verifyDIDDocumentProof(
+  document: DIDDocument,
+  resolveDID: (did: string) => Promise<DIDDocument> = async () => document
+): Promise<DataIntegrityVerificationResult> {
+  return verifyDataIntegrity(document, resolveDID, { controller: document?.id });
+}
+
+/**
+ * 验证智能体描述的proof，签名验证方法必须属于描述中的did
+ */
+export async function verifyAgentDescriptionProof(
+  description: Record<string, any>,
+  resolveDID: (did: string) => Promise<DIDDocument>
+): Promise<DataIntegrityVerificationResult> {
+  return verifyDataIntegrity(description, resolveDID, { controller: description?.did });
+}
+
+/**
+ * hashData = SHA-256(JCS(证明配置)) || SHA-256(JCS(文档))
+ * 文档带@context时证明配置沿用同一@context
+ */
+function computeHashData(unsecured: Record<string, any>, proofConfig: Record<string, any>): Buffer {
+  const config = unsecured['@context'] !== undefined
+    ? { '@context': unsecured['@context'], ...proofConfig }
+    : proofConfig;
+
+  return Buffer.concat([
+    crypto.createHash('sha256').update(canonicalize(config), 'utf8').digest(),
+    crypto.createHash('sha256').update(canonicalize(unsecured), 'utf8').digest()
+  ]);
+}
+
+/**
+ * 密钥类型对应的密码套件
+ */
+function getCryptosuite(keyType: KeyType): DataIntegrityCryptosuite {
+  if (keyType === KeyType.ED25519) {
+    return 'eddsa-jcs-2022';
+  }
+  if (keyType === KeyType.SECP256K1) {
+    return 'ecdsa-jcs-2019';
+  }
+  throw new Error(`密钥类型 ${keyType} 不能用于Data Integrity证明`);
+}
+
+/**
+ * 查找指定验证关系中的验证方法
+ */
+function findRelationshipMethod(didDocument: DIDDocument, relationship: string, id: string): VerificationMethod | null {
+  const methods = didDocument.verificationMethod || [];
+  const references = (didDocument as any)[relationship];
+  if (!Array.isArray(references)) {
+    return null;
+  }
+
+  for (const reference of references) {
+    const method = typeof reference === 'string'
+      ? methods.find(m => m.id === reference)
+      : reference;
+    if (method && method.id === id) {
+      return method;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { verifyCredential } from './credentials';
+import { verifyAgentDescriptionProof, verifyDIDDocumentProof, signDataIntegrity } from './data-integrity';
+import { DIDAutoConfig, DIDAutoConfigOptions } from './did-auto-config';
+import { generateDIDKey, isDIDKey, resolveDIDKey } from './did-key';
+import { DIDResolver } from './did-resolver';
+import { validateDIDDocument } from './did-validator';
+import { createStaticApprover, HumanAuthorizer } from './human-authorization';
+
+async function createConfig(options: DIDAutoConfigOptions = {}) {
+  const config = new DIDAutoConfig({ logLevel: 'error', ...options });
+  await config.autoSetup('192.168.1.10', 3000);
+  return config;
+}
+
+describe('DIDAutoConfig', () => {
+  it('生成的DID文档校验无错误和警告，默认服务id为带片段的DID URL', async () => {
+    const config = await createConfig();
+    const document = config.getDIDDocument();
+
+    const report = validateDIDDocument(document, { did: config.getDID() });
+
+    expect(report.errors).toEqual([]);
+    expect(report.warnings).toEqual([]);
+    expect(document.service.map((s: any) => s.id)).toContain(`${config.getDID()}#default`);
+  });
+
+  describe('文档签名', () => {
+    it('DID文档和智能体描述的proof由自身DID签署', async () => {
+      const config = await createConfig({ signDocuments: true });
+      const resolveDID = async () => config.getDIDDocument();
+
+      expect((await verifyDIDDocumentProof(config.getDIDDocument())).valid).toBe(true);
+      expect((await verifyAgentDescriptionProof(config.getAgentDescription(), resolveDID)).valid).toBe(true);
+    });
+
+    it('镜像用自己的did:key重新签署的内容被拒绝', async () => {
+      const config = await createConfig({ signDocuments: true });
+      const mirror = await generateDIDKey();
+      const mirrorMethod = resolveDIDKey(mirror.did).assertionMethod![0] as string;
+      const resolveDID = async (did: string) => isDIDKey(did) ? resolveDIDKey(did) : config.getDIDDocument();
+
+      const document = await signDataIntegrity(
+        { ...config.getDIDDocument(), service: [{ id: `${config.getDID()}#default`, type: 'AgentService', serviceEndpoint: 'https://mirror.example.com' }] },
+        mirror.private_key,
+        mirrorMethod
+      );
+      const description = await signDataIntegrity(
+        { ...config.getAgentDescription(), name: 'mirror' },
+        mirror.private_key,
+        mirrorMethod
+      );
+
+      expect(await verifyDIDDocumentProof(document, resolveDID)).toMatchObject({ valid: false, error: 'controller_mismatch' });
+      expect(await verifyAgentDescriptionProof(description, resolveDID)).toMatchObject({ valid: false, error: 'controller_mismatch' });
+    });
+  });
+
+  describe('DID文档版本', () => {
+    const service = (name: string) => ({ id: `#${name}`, type: 'AgentService', serviceEndpoint: `https://example.com/${name}` });
+    const serviceIds = (document: any) => document.service.map((s: any) => s.id);
+
+    // 托管方按查询参数返回对应版本，与HTTP路由的行为一致
+    const createResolver = (config: DIDAutoConfig) => new DIDResolver({
+      logLevel: 'error',
+      fetch: async url => {
+        const versionId = new URL(url).searchParams.get('versionId') ?? undefined;
+        const { status, body } = config.getDIDDocumentResponse({ versionId });
+        return new Response(JSON.stringify(body), { status });
+      }
+    });
+
+    it('每次更新生成递增的版本，可以按versionId获取历史版本', async () => {
+      const config = await createConfig();
+      const initial = config.getDIDDocumentVersion()!;
+
+      const first = await config.updateDID(config.getDID(), { addServices: [service('a')] });
+      const second = await config.updateDID(config.getDID(), { addServices: [service('b')] });
+
+      expect(first.versionId).toBe(String(Number(initial.versionId) + 1));
+      expect(second.versionId).toBe(String(Number(first.versionId) + 1));
+      expect(config.getDocumentHistory().map(v => v.versionId)).toEqual(expect.arrayContaining([initial.versionId, first.versionId, second.versionId]));
+      expect(serviceIds(config.getDIDDocumentVersion({ versionId: first.versionId })!.document)).toEqual(serviceIds(first.document));
+      expect(serviceIds(first.document)).not.toContain('#b');
+      expect(config.getDIDDocumentVersion({ versionId: '999' })).toBeNull();
+      expect(config.getDocumentMetadata(first.versionId)).toMatchObject({ nextVersionId: second.versionId });
+    });
+
+    it('只保留maxDocumentHistory个版本', async () => {
+      const config = await createConfig({ maxDocumentHistory: 2 });
+      const initial = config.getDIDDocumentVersion()!;
+
+      await config.updateDID(config.getDID(), { addServices: [service('a')] });
+      const latest = await config.updateDID(config.getDID(), { addServices: [service('b')] });
+
+      expect(config.getDocumentHistory()).toHaveLength(2);
+      expect(config.getDocumentHistory()[1]).toEqual(latest);
+      expect(config.getDIDDocumentVersion({ versionId: initial.versionId })).toBeNull();
+    });
+
+    it('解析器通过versionId获取指定版本，版本不存在时失败', async () => {
+      const config = await createConfig();
+      const { versionId } = config.getDIDDocumentVersion()!;
+      await config.updateDID(config.getDID(), { addServices: [service('a')] });
+      const resolver = createResolver(config);
+
+      const previous = await resolver.resolve(config.getDID(), false, { versionId });
+
+      expect(serviceIds(previous)).not.toContain('#a');
+      expect(serviceIds(await resolver.resolve(config.getDID()))).toContain('#a');
+      await expect(resolver.resolve(config.getDID(), false, { versionId: '999' })).rejects.toThrow('HTTP 404');
+    });
+
+    it('签发凭证时补充的assertionMethod作为新版本提交', async () => {
+      const config = await createConfig();
+      // 模拟旧版本生成的、没有assertionMethod关系的文档
+      delete config.getDIDDocument().assertionMethod;
+      const before = config.getDIDDocumentVersion()!;
+
+      const credential = await config.issueCredential({ id: 'did:wba:example.com:bob', skill: 'translation' });
+      const latest = config.getDIDDocumentVersion()!;
+
+      expect(latest.versionId).toBe(String(Number(before.versionId) + 1));
+      expect(latest.document.assertionMethod).toEqual([config.getDIDDocument().authentication[0]]);
+      expect((await verifyCredential(credential, async () => latest.document)).valid).toBe(true);
+    });
+
+    it('开启文档签名时，assertionMethod随更新一并提交且proof可以验证', async () => {
+      const config = await createConfig({ signDocuments: true });
+      delete config.getDIDDocument().assertionMethod;
+
+      const version = await config.updateDID(config.getDID(), { addServices: [service('a')] });
+
+      expect(version.document.assertionMethod).toEqual([config.getDIDDocument().authentication[0]]);
+      expect((await verifyDIDDocumentProof(version.document)).valid).toBe(true);
+    });
+  });
+
+  describe('停用', () => {
+    it('清空密钥包和私钥，已交出的密钥包引用同样失效', async () => {
+      const config = await createConfig();
+      const keys = config.getConfig().keys;
+      const authorizer = new HumanAuthorizer({ did: config.getDID(), keys, approver: createStaticApprover(true), logLevel: 'error' });
+
+      await config.deactivateDID(config.getDID());
+
+      expect(config.getKeys()).toEqual({});
+      expect(keys).toEqual({});
+      expect(config.getConfig().privateKey).toBe('');
+      expect(() => config.getPrivateKey()).toThrow('停用');
+      await expect(config.getSigner().sign(Buffer.from('x'))).rejects.toThrow('停用');
+      await expect(authorizer.authorize('transfer', {}, 'example.com')).rejects.toThrow();
+    });
+  });
+
+  describe('密钥轮换', () => {
+    it('新密钥成为默认身份验证方法，旧密钥在宽限期内保留', async () => {
+      const config = await createConfig();
+      const previousKeyId = config.getDIDDocument().authentication[0];
+
+      const result = await config.rotateAuthenticationKey(60 * 1000);
+      const document = config.getDIDDocument();
+
+      expect(result.previousKeyId).toBe(previousKeyId);
+      expect(document.authentication).toEqual([result.keyId, previousKeyId]);
+      expect(document.assertionMethod).toEqual([result.keyId]);
+      expect(document.verificationMethod.find((m: any) => m.id === previousKeyId).expires).toBe(result.previousKeyExpires);
+      expect(config.getSigner().keyId).toBe(result.keyId.split('#')[1]);
+    });
+
+    it('超过定时器上限的宽限期不会提前移除旧密钥', async () => {
+      const config = await createConfig();
+      const day = 24 * 60 * 60 * 1000;
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      try {
+        const { previousKeyId } = await config.rotateAuthenticationKey(30 * day);
+        const hasPreviousKey = () => config.getDIDDocument().verificationMethod.some((m: any) => m.id === previousKeyId);
+
+        await jest.advanceTimersByTimeAsync(29 * day);
+        expect(hasPreviousKey()).toBe(true);
+
+        await jest.advanceTimersByTimeAsync(day);
+        expect(hasPreviousKey()).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('人类授权密钥不随身份验证密钥轮换', async () => {
+      const config = await createConfig();
+      const humanAuthorization = config.getDIDDocument().humanAuthorization;
+
+      const { keyId } = await config.rotateAuthenticationKey(60 * 1000);
+
+      expect(config.getDIDDocument().humanAuthorization).toEqual(humanAuthorization);
+      expect(JSON.stringify(config.getDIDDocument().humanAuthorization)).not.toContain(keyId);
+    });
+  });
+});
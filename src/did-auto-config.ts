@@ -3,7 +3,20 @@
  * 提供DID自动生成、DID文档自动配置等功能
  */
 
-import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import {
+  ANPKeyGenerator,
+  DIDDocumentVersion,
+  DIDVersionQuery,
+  KeyBundle,
+  KeyType,
+  VerificationMethod
+} from './anp-key-generator';
+import { KeystoreIdentity } from './keystore';
+import { signDataIntegrity } from './data-integrity';
+import { CredentialSubject, issueCredential, IssueCredentialOptions, VerifiableCredential } from './credentials';
+import { InMemorySigner, Signer } from './signer';
+import { DIDValidationReport, validateDIDDocument } from './did-validator';
+import { DID_DEACTIVATED_STATUS } from './did-resolver';
 
 // 类型定义
 export interface DIDAutoConfigOptions {
@@ -23,6 +36,61 @@ export interface DIDAutoConfigOptions {
   serviceEndpoints?: ServiceEndpoint[];
   /** 日志级别 */
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
+  /** 从加密密钥库打开身份，条目不存在时保存新生成的身份 */
+  keystore?: KeystoreIdentity | null;
+  /** 密钥轮换后旧密钥仍被接受的宽限期（毫秒） */
+  keyRotationGracePeriod?: number;
+  /** 是否用身份验证密钥为DID文档和智能体描述附加Data Integrity证明 */
+  signDocuments?: boolean;
+  /** 在智能体描述中公开的可验证凭证 */
+  credentials?: VerifiableCredential[];
+  /** 外部签名器，身份验证私钥由其持有而不进入本进程（不能与keystore同时使用） */
+  signer?: Signer | null;
+  /** 保留的DID文档历史版本数量 */
+  maxDocumentHistory?: number;
+  /** 智能体实际提供服务的协议，决定文档中本机地址URL的scheme；默认http，配合HTTPAutoConfig使用时传入其配置结果的protocol */
+  protocol?: 'http' | 'https';
+}
+
+// DID文档中的验证关系
+export type VerificationRelationship = 'authentication' | 'assertionMethod' | 'keyAgreement' | 'humanAuthorization';
+
+const VERIFICATION_RELATIONSHIPS: VerificationRelationship[] = ['authentication', 'assertionMethod', 'keyAgreement', 'humanAuthorization'];
+
+// setTimeout的最大延迟（约24.8天），超出时Node会改为1毫秒后触发
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export interface DIDDocumentUpdate {
+  /** 新增的验证方法，已存在的同id方法会被替换；relationships为其加入的验证关系 */
+  addVerificationMethods?: { method: VerificationMethod; relationships?: VerificationRelationship[] }[];
+  /** 移除的验证方法ID，同时从所有验证关系中移除 */
+  removeVerificationMethods?: string[];
+  /** 将已有的验证方法加入验证关系 */
+  addRelationships?: { id: string; relationships: VerificationRelationship[] }[];
+  /** 新增的服务端点，已存在的同id服务会被替换 */
+  addServices?: ServiceEndpoint[];
+  /** 移除的服务端点ID */
+  removeServices?: string[];
+  addContexts?: string[];
+  removeContexts?: string[];
+}
+
+// DID文档元数据（DID解析规范中的created / updated / versionId）
+export interface DIDDocumentMetadata {
+  created: string;
+  updated: string;
+  versionId: string;
+  /** 查询历史版本时，下一个版本的版本号和生效时间 */
+  nextVersionId?: string;
+  nextUpdate?: string;
+  /** DID已停用 */
+  deactivated?: boolean;
+}
+
+// DID文档端点的HTTP响应
+export interface DIDDocumentResponse {
+  status: number;
+  body: any;
 }
 
 export interface AgentInterface {
@@ -38,9 +106,26 @@ export interface ServiceEndpoint {
   description?: string;
 }
 
+export interface KeyRotationResult {
+  /** 新身份验证方法ID */
+  keyId: string;
+  /** 被轮换的旧方法ID */
+  previousKeyId: string;
+  /** 新私钥（PKCS#8 PEM） */
+  privateKey: string;
+  /** 旧密钥停止接受的时间 */
+  previousKeyExpires: string;
+}
+
 export interface DIDConfig {
   did: string;
+  /** 身份验证私钥（PKCS#8 PEM），使用外部签名器或DID已停用时为空字符串 */
   privateKey: string;
+  /** 身份验证密钥的签名器 */
+  signer: Signer;
+  /** DID文档中所有验证方法的私钥 */
+  keys: KeyBundle;
+  /** 身份验证公钥（Multibase编码或JWK的JSON） */
   publicKey: string;
   didDocument: any;
   agentDescription: any;
@@ -54,9 +139,16 @@ export class DIDAutoConfig {
   private options: Required<DIDAutoConfigOptions>;
   private autoDid: string | null = null;
   private privateKey: string | null = null;
+  private signer: Signer | null = null;
+  private keys: KeyBundle | null = null;
   private publicKey: string | null = null;
   private didDocument: any = null;
   private agentDescription: any = null;
+  private retirementTimers: Map<string, NodeJS.Timeout> = new Map();
+  private documentHistory: DIDDocumentVersion[] = [];
+  private identityCreatedAt: string = new Date().toISOString();
+  private deactivatedAt: string | null = null;
+  private domain: string | null = null;
 
   constructor(options: DIDAutoConfigOptions = {}) {
     this.options = {
@@ -73,6 +165,13 @@ export class DIDAutoConfig {
       ],
       serviceEndpoints: [],
       logLevel: 'info',
+      keystore: null,
+      keyRotationGracePeriod: 24 * 60 * 60 * 1000,
+      signDocuments: false,
+      credentials: [],
+      signer: null,
+      maxDocumentHistory: 100,
+      protocol: 'http',
       ...options
     };
   }
@@ -96,6 +195,10 @@ export class DIDAutoConfig {
       await this.generateAgentDescription();
       this.log('info', `✅ 智能体描述文档生成完成`);
       
+      // 步骤4: 签署文档并记录版本
+      await this.refreshProofs();
+      this.commitVersion();
+      
       this.log('info', '🎉 DID自动配置完成！');
       return this.getConfig();
       
@@ -109,22 +212,84 @@ export class DIDAutoConfig {
    * 生成DID和密钥对
    */
   private async generateDIDAndKeys(domain: string, port?: number): Promise<void> {
+    const identity = this.options.keystore;
+    if (identity && this.options.signer) {
+      throw new Error('外部签名器不能与密钥库同时使用');
+    }
+
     // 构建完整的域名（包含端口）
     const fullDomain = port ? `${domain}:${port}` : domain;
-    
-    // 使用ANP密钥生成器
-    const generator = new ANPKeyGenerator(fullDomain, 'auto-agent');
-    const keyPair = await generator.generateKeyPair(this.options.keyType);
-    
-    this.autoDid = keyPair.did;
-    this.privateKey = keyPair.private_key;
-    
-    // 解析DID文档
-    this.didDocument = JSON.parse(keyPair.did_document);
+    this.domain = fullDomain;
+
+    if (identity && await identity.keystore.has(identity.name)) {
+      // 打开已有身份
+      const entry = await identity.keystore.load(identity.name, identity.passphrase);
+      this.autoDid = entry.did;
+      this.options.keyType = entry.keyType;
+      this.keys = entry.keys || {
+        [entry.didDocument.authentication[0] as string]: {
+          purpose: 'authentication',
+          keyType: entry.keyType,
+          privateKey: entry.privateKey
+        }
+      };
+      this.didDocument = entry.didDocument;
+      this.setAuthenticationKey(entry.privateKey, entry.didDocument.authentication[0] as string);
+      this.documentHistory = entry.documentHistory || [];
+      this.identityCreatedAt = entry.createdAt;
+      this.deactivatedAt = entry.deactivatedAt || null;
+      this.log('info', `🔐 从密钥库加载身份: ${identity.name}`);
+
+      if (!this.autoDid.startsWith(`did:wba:${fullDomain.replace(/:/g, '%3A')}:`)) {
+        this.log('warn', `⚠️ 已加载的DID ${this.autoDid} 与当前地址 ${fullDomain} 不一致，对方可能无法解析`);
+      }
+
+      // 恢复未完成的密钥轮换（已停用的DID不再变更文档）
+      if (this.deactivatedAt) {
+        this.stripKeys();
+        this.log('warn', `⛔ DID已于 ${this.deactivatedAt} 停用: ${this.autoDid}`);
+      } else {
+        await this.pruneExpiredKeys();
+        for (const method of this.didDocument.verificationMethod || []) {
+          if (method.expires) {
+            this.scheduleKeyRetirement(method.id, Date.parse(method.expires));
+          }
+        }
+      }
+    } else {
+      // 使用ANP密钥生成器
+      const generator = new ANPKeyGenerator(fullDomain, 'auto-agent');
+      const signer = this.options.signer;
+      const keyPair = await generator.generateKeyPair(this.options.keyType, signer || undefined);
+      
+      this.autoDid = keyPair.did;
+      this.keys = keyPair.keys;
+      
+      // 解析DID文档
+      this.didDocument = JSON.parse(keyPair.did_document);
+
+      if (signer) {
+        this.options.keyType = signer.keyType;
+        this.signer = this.guardSigner(signer);
+      } else {
+        this.setAuthenticationKey(keyPair.private_key, this.didDocument.authentication[0]);
+      }
+
+      if (identity && identity.createIfMissing !== false) {
+        await identity.keystore.save(identity.name, {
+          did: this.autoDid,
+          keyType: this.options.keyType,
+          privateKey: keyPair.private_key,
+          keys: this.keys,
+          didDocument: this.didDocument,
+          createdAt: this.identityCreatedAt
+        }, identity.passphrase);
+      }
+    }
     
     // 提取公钥
     if (this.didDocument.verificationMethod && this.didDocument.verificationMethod[0]) {
-      this.publicKey = this.didDocument.verificationMethod[0].publicKeyMultibase;
+      this.publicKey = this.formatPublicKey(this.didDocument.verificationMethod[0]);
     }
   }
 
@@ -151,16 +316,39 @@ export class DIDAutoConfig {
       this.didDocument.service = [];
     }
 
-    // 添加默认服务端点（如果存在）
-    const defaultEndpoint = this.options.serviceEndpoints.find(ep => ep.id === 'default');
+    // 添加默认服务端点（如果存在），id使用带片段的DID URL
+    const defaultId = `${this.didDocument.id}#default`;
+    const isDefault = (id: string) => id === 'default' || id === '#default' || id === defaultId;
+    const defaultEndpoint = this.options.serviceEndpoints.find(ep => isDefault(ep.id))
+      || this.didDocument.service.find((s: any) => isDefault(s.id));
     if (!defaultEndpoint && this.options.serviceEndpoints.length === 0) {
       this.didDocument.service.push({
-        id: 'default',
+        id: defaultId,
         type: 'ANPAgentService',
-        serviceEndpoint: 'http://localhost:3000/anp/api',
+        serviceEndpoint: `${this.options.protocol}://${this.domain}/anp/api`,
         description: 'Default ANP agent service endpoint'
       });
     }
+
+    // 本机地址的服务端点（包括智能体描述服务）使用实际提供服务的协议
+    for (const service of this.didDocument.service) {
+      service.serviceEndpoint = this.withProtocol(service.serviceEndpoint);
+    }
+  }
+
+  /**
+   * 将指向本机地址的URL改为实际提供服务的协议，其他URL原样返回
+   */
+  private withProtocol(endpoint: string): string {
+    try {
+      const url = new URL(endpoint);
+      if (url.host !== this.domain || url.protocol === `${this.options.protocol}:`) {
+        return endpoint;
+      }
+      return `${this.options.protocol}:${endpoint.slice(url.protocol.length)}`;
+    } catch {
+      return endpoint;
+    }
   }
 
   /**
@@ -180,7 +368,7 @@ export class DIDAutoConfig {
       "created": new Date().toISOString(),
       "ad:interfaces": this.options.interfaces.map(iface => ({
         "@type": `ad:${iface.type}`,
-        "url": iface.url || this.getDefaultInterfaceUrl(),
+        "url": this.withProtocol(iface.url || this.getDefaultInterfaceUrl()),
         "description": iface.description
       })),
       "ad:capabilities": [
@@ -202,7 +390,8 @@ export class DIDAutoConfig {
           "version": "1.0",
           "description": "Agent Network Protocol"
         }
-      ]
+      ],
+      ...(this.options.credentials.length > 0 ? { "ad:credentials": [...this.options.credentials] } : {})
     };
   }
 
@@ -210,60 +399,492 @@ export class DIDAutoConfig {
    * 获取默认接口URL
    */
   private getDefaultInterfaceUrl(): string {
-    // 从DID文档中获取服务端点
-    if (this.didDocument && this.didDocument.service && this.didDocument.service[0]) {
-      return this.didDocument.service[0].serviceEndpoint;
+    // 从DID文档中获取服务端点，优先使用ANP服务而非智能体描述服务
+    const services: any[] = this.didDocument?.service || [];
+    const service = services.find(s => s.type === 'ANPAgentService') || services[0];
+    if (service) {
+      return service.serviceEndpoint;
     }
-    return 'http://localhost:3000/anp/api';
+    return `${this.options.protocol}://${this.domain || 'localhost:3000'}/anp/api`;
   }
 
   /**
    * 更新服务端点
    */
-  public updateServiceEndpoint(endpoint: ServiceEndpoint): void {
-    if (!this.didDocument) {
+  public async updateServiceEndpoint(endpoint: ServiceEndpoint): Promise<void> {
+    if (!this.autoDid || !this.didDocument) {
       throw new Error('DID document not configured yet');
     }
 
-    if (!this.didDocument.service) {
-      this.didDocument.service = [];
+    await this.updateDID(this.autoDid, { addServices: [endpoint] });
+    this.log('info', `✅ 更新服务端点: ${endpoint.id}`);
+  }
+
+  /**
+   * 更新DID文档并生成新版本
+   *
+   * 修改先作用于文档副本，校验通过后才替换当前文档（对象原地更新）；
+   * 身份验证密钥请使用rotateAuthenticationKey轮换。
+   */
+  public async updateDID(did: string, updates: DIDDocumentUpdate): Promise<DIDDocumentVersion> {
+    if (!this.autoDid || !this.didDocument) {
+      throw new Error('DID not configured yet. Call autoSetup() first.');
+    }
+    if (did !== this.autoDid) {
+      throw new Error(`只能更新本智能体的DID: ${this.autoDid}`);
     }
+    this.assertActive();
 
-    // 查找现有端点并更新，或添加新端点
-    const existingIndex = this.didDocument.service.findIndex((s: any) => s.id === endpoint.id);
-    if (existingIndex >= 0) {
-      this.didDocument.service[existingIndex] = {
+    const { proof: _proof, ...current } = this.didDocument;
+    const document = JSON.parse(JSON.stringify(current));
+    const toAbsolute = (id: string) => id.startsWith('#') ? `${did}${id}` : id;
+
+    // 上下文
+    for (const context of updates.addContexts || []) {
+      if (!document['@context'].includes(context)) {
+        document['@context'].push(context);
+      }
+    }
+    if (updates.removeContexts) {
+      document['@context'] = document['@context'].filter((c: string) => !updates.removeContexts!.includes(c));
+    }
+
+    // 验证方法
+    const signingKeyId = this.didDocument.authentication.find((ref: any) => typeof ref === 'string');
+    const removedKeys = (updates.removeVerificationMethods || []).map(toAbsolute);
+    if (removedKeys.includes(signingKeyId)) {
+      throw new Error(`不能移除当前身份验证密钥 ${signingKeyId}，请使用rotateAuthenticationKey`);
+    }
+    removedKeys.forEach(id => removeMethod(document, id));
+
+    for (const { method, relationships = [] } of updates.addVerificationMethods || []) {
+      const id = toAbsolute(method.id);
+      if (id === signingKeyId) {
+        throw new Error(`不能替换当前身份验证密钥 ${signingKeyId}，请使用rotateAuthenticationKey`);
+      }
+      removeMethod(document, id);
+      document.verificationMethod = [...(document.verificationMethod || []), { ...method, id }];
+      for (const relationship of relationships) {
+        document[relationship] = [...(document[relationship] || []), id];
+      }
+    }
+
+    // 签署文档使用当前身份验证密钥，需要时随本次更新一并加入assertionMethod
+    const relationshipUpdates = [...(updates.addRelationships || [])];
+    if (this.options.signDocuments && signingKeyId) {
+      relationshipUpdates.push({ id: signingKeyId, relationships: ['assertionMethod'] });
+    }
+    for (const { id, relationships } of relationshipUpdates) {
+      const methodId = toAbsolute(id);
+      for (const relationship of relationships) {
+        const entries: any[] = Array.isArray(document[relationship]) ? document[relationship] : [];
+        if (!entries.some(ref => (typeof ref === 'string' ? ref : ref.id) === methodId)) {
+          document[relationship] = [...entries, methodId];
+        }
+      }
+    }
+
+    // 服务端点
+    const removedServices = (updates.removeServices || []).map(toAbsolute);
+    for (const endpoint of updates.addServices || []) {
+      const service = {
         id: endpoint.id,
         type: endpoint.type,
         serviceEndpoint: endpoint.serviceEndpoint,
         description: endpoint.description
       };
-    } else {
-      this.didDocument.service.push({
-        id: endpoint.id,
-        type: endpoint.type,
-        serviceEndpoint: endpoint.serviceEndpoint,
-        description: endpoint.description
-      });
+      const services: any[] = document.service || [];
+      const existingIndex = services.findIndex((s: any) => s.id === endpoint.id);
+      if (existingIndex >= 0) {
+        services[existingIndex] = service;
+      } else {
+        services.push(service);
+      }
+      document.service = services;
+    }
+    if (removedServices.length > 0) {
+      document.service = (document.service || []).filter((s: any) => !removedServices.includes(toAbsolute(s.id)));
     }
 
-    this.log('info', `✅ 更新服务端点: ${endpoint.id}`);
+    const report = validateDIDDocument(document, { did });
+    if (!report.valid) {
+      throw new Error(`更新后的DID文档无效: ${report.errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+    }
+
+    // 原地替换，持有文档引用的路由即时生效
+    for (const key of Object.keys(this.didDocument)) {
+      delete this.didDocument[key];
+    }
+    Object.assign(this.didDocument, document);
+
+    for (const id of [...removedKeys, ...(updates.addVerificationMethods || []).map(({ method }) => toAbsolute(method.id))]) {
+      this.forgetKey(id);
+    }
+
+    await this.refreshProofs();
+    // 内容没有变化时不生成新版本，返回当前版本
+    const version = this.commitVersion() || this.getDIDDocumentVersion()!;
+    await this.persistIdentity();
+
+    this.log('info', `📝 DID文档已更新至版本 ${version.versionId}`);
+    return version;
+  }
+
+  /**
+   * 轮换身份验证密钥
+   *
+   * 新密钥成为首个authentication方法，旧密钥标记expires并在宽限期内继续被接受，
+   * 宽限期结束后从文档和密钥包中移除。文档对象原地更新，路由返回的内容即时生效。
+   */
+  public async rotateAuthenticationKey(gracePeriod: number = this.options.keyRotationGracePeriod): Promise<KeyRotationResult> {
+    if (!this.autoDid || !this.didDocument || !this.keys) {
+      throw new Error('DID not configured yet. Call autoSetup() first.');
+    }
+    if (this.options.signer) {
+      throw new Error('使用外部签名器时应在签名器中生成新密钥，不能自动轮换');
+    }
+    this.assertActive();
+
+    const previousKeyId = this.didDocument.authentication.find((ref: any) => typeof ref === 'string');
+    if (!previousKeyId) {
+      throw new Error('DID文档中没有可轮换的身份验证密钥');
+    }
+
+    const generator = new ANPKeyGenerator('');
+    const { method, privateKey } = await generator.generateVerificationMethod(this.autoDid, this.options.keyType);
+    const previousKeyExpires = new Date(Date.now() + gracePeriod).toISOString();
+
+    // 旧方法标记过期时间，新方法排在最前作为默认身份验证方法
+    const previousMethod = this.didDocument.verificationMethod.find((m: any) => m.id === previousKeyId);
+    if (previousMethod) {
+      previousMethod.expires = previousKeyExpires;
+    }
+    this.didDocument.verificationMethod.unshift(method);
+    this.didDocument.authentication.unshift(method.id);
+
+    // 断言关系中对身份验证密钥的引用指向新密钥（人类授权使用专用密钥，不随轮换变化）
+    if (Array.isArray(this.didDocument.assertionMethod)) {
+      this.didDocument.assertionMethod = this.didDocument.assertionMethod.map(
+        (ref: any) => ref === previousKeyId ? method.id : ref
+      );
+    }
+
+    this.keys[method.id] = { purpose: 'authentication', keyType: this.options.keyType, privateKey };
+    this.setAuthenticationKey(privateKey, method.id);
+    this.publicKey = this.formatPublicKey(method);
+    await this.refreshProofs();
+    this.commitVersion();
+
+    this.scheduleKeyRetirement(previousKeyId, Date.parse(previousKeyExpires));
+    await this.persistIdentity();
+
+    this.log('info', `🔄 身份验证密钥已轮换: ${method.id}，旧密钥将于 ${previousKeyExpires} 失效`);
+    return { keyId: method.id, previousKeyId, privateKey, previousKeyExpires };
+  }
+
+  /**
+   * 移除所有已过期的验证方法
+   */
+  public async pruneExpiredKeys(): Promise<string[]> {
+    if (!this.didDocument) {
+      return [];
+    }
+
+    const now = Date.now();
+    const expired: string[] = (this.didDocument.verificationMethod || [])
+      .filter((m: any) => m.expires && Date.parse(m.expires) <= now)
+      .map((m: any) => m.id);
+
+    for (const id of expired) {
+      await this.removeVerificationMethod(id);
+    }
+    return expired;
+  }
+
+  /**
+   * 在宽限期结束后移除旧密钥
+   * 截止时间超出单个定时器的上限时分段等待，到期前重新设置定时器
+   * @param retireAt 移除时间（毫秒时间戳）
+   */
+  private scheduleKeyRetirement(keyId: string, retireAt: number): void {
+    const delay = Math.min(Math.max(retireAt - Date.now(), 0), MAX_TIMER_DELAY);
+    const timer = setTimeout(() => {
+      this.retirementTimers.delete(keyId);
+      if (Date.now() < retireAt) {
+        this.scheduleKeyRetirement(keyId, retireAt);
+        return;
+      }
+      this.removeVerificationMethod(keyId)
+        .then(() => this.persistIdentity())
+        .catch(error => this.log('error', `保存轮换后的身份失败: ${error}`));
+    }, delay);
+    // 不阻止进程退出
+    timer.unref();
+    this.retirementTimers.set(keyId, timer);
+  }
+
+  /**
+   * 设置本地持有的身份验证私钥及其签名器
+   */
+  private setAuthenticationKey(privateKey: string, keyId: string): void {
+    this.privateKey = privateKey;
+    this.signer = this.guardSigner(new InMemorySigner(privateKey, keyId.slice(keyId.indexOf('#') + 1)));
+  }
+
+  /**
+   * 包装签名器，DID停用后拒绝签名（包括已通过getSigner交给其他组件的签名器）
+   */
+  private guardSigner(signer: Signer): Signer {
+    return {
+      keyId: signer.keyId,
+      keyType: signer.keyType,
+      algorithm: signer.algorithm,
+      getPublicKey: () => signer.getPublicKey(),
+      sign: async (data: Uint8Array) => {
+        this.assertActive();
+        return signer.sign(data);
+      }
+    };
+  }
+
+  /**
+   * 停用DID
+   *
+   * 文档端点此后返回410及deactivated元数据，验证方据此拒绝本DID的请求；
+   * 本智能体不再签名，也不能再更新文档或轮换密钥。停用不可撤销。
+   */
+  public async deactivateDID(did: string): Promise<DIDDocumentMetadata> {
+    if (!this.autoDid || !this.didDocument) {
+      throw new Error('DID not configured yet. Call autoSetup() first.');
+    }
+    if (did !== this.autoDid) {
+      throw new Error(`只能停用本智能体的DID: ${this.autoDid}`);
+    }
+
+    if (!this.deactivatedAt) {
+      this.deactivatedAt = new Date().toISOString();
+      for (const timer of this.retirementTimers.values()) {
+        clearTimeout(timer);
+      }
+      this.retirementTimers.clear();
+      await this.persistIdentity();
+      this.stripKeys();
+      this.log('warn', `⛔ DID已停用: ${did}`);
+    }
+
+    return this.getDocumentMetadata();
+  }
+
+  /**
+   * DID是否已停用
+   */
+  public isDeactivated(): boolean {
+    return this.deactivatedAt !== null;
+  }
+
+  /**
+   * 停用后清空内存中的私钥，密钥包原地清空，已通过getKeys交给其他组件（如HumanAuthorizer）的引用同样失效
+   */
+  private stripKeys(): void {
+    this.privateKey = null;
+    if (this.keys) {
+      for (const keyId of Object.keys(this.keys)) {
+        delete this.keys[keyId];
+      }
+    }
+  }
+
+  /**
+   * DID已停用时拒绝签名和文档变更
+   */
+  private assertActive(): void {
+    if (this.deactivatedAt) {
+      throw new Error(`DID已于 ${this.deactivatedAt} 停用，不能继续签名或更新: ${this.autoDid}`);
+    }
+  }
+
+  /**
+   * 公钥的字符串形式：Multibase编码或JWK的JSON
+   */
+  private formatPublicKey(method: VerificationMethod): string {
+    return method.publicKeyMultibase || JSON.stringify(method.publicKeyJwk);
+  }
+
+  /**
+   * 从DID文档和密钥包中移除验证方法
+   */
+  private async removeVerificationMethod(keyId: string): Promise<void> {
+    removeMethod(this.didDocument, keyId);
+    await this.refreshProofs();
+    this.commitVersion();
+    this.forgetKey(keyId);
+
+    this.log('info', `🗑️ 已移除验证方法: ${keyId}`);
+  }
+
+  /**
+   * 删除验证方法对应的私钥和待执行的退役定时器
+   */
+  private forgetKey(keyId: string): void {
+    if (this.keys) {
+      delete this.keys[keyId];
+    }
+
+    const timer = this.retirementTimers.get(keyId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retirementTimers.delete(keyId);
+    }
+  }
+
+  /**
+   * 将当前文档记录为新版本，内容与最新版本相同时不记录
+   */
+  private commitVersion(): DIDDocumentVersion | null {
+    const latest = this.documentHistory[this.documentHistory.length - 1];
+    const snapshot = JSON.stringify(this.didDocument);
+    if (latest && JSON.stringify(latest.document) === snapshot) {
+      return null;
+    }
+
+    const version: DIDDocumentVersion = {
+      versionId: String(latest ? Number(latest.versionId) + 1 : 1),
+      updated: new Date().toISOString(),
+      document: JSON.parse(snapshot)
+    };
+    this.documentHistory.push(version);
+    if (this.documentHistory.length > this.options.maxDocumentHistory) {
+      this.documentHistory.splice(0, this.documentHistory.length - this.options.maxDocumentHistory);
+    }
+    return version;
+  }
+
+  /**
+   * 以本智能体DID签发可验证凭证，例如为其他智能体认证某项能力
+   */
+  public async issueCredential(
+    credentialSubject: CredentialSubject,
+    options: Omit<IssueCredentialOptions, 'issuer' | 'privateKey' | 'verificationMethod' | 'credentialSubject'> = {}
+  ): Promise<VerifiableCredential> {
+    if (!this.autoDid || !this.didDocument || !this.signer) {
+      throw new Error('DID not configured yet. Call autoSetup() first.');
+    }
+    this.assertActive();
+
+    const keyId = await this.ensureAssertionMethod();
+    const credential = await issueCredential({
+      ...options,
+      issuer: this.autoDid,
+      privateKey: this.signer,
+      verificationMethod: keyId,
+      credentialSubject
+    });
+
+    this.log('info', `📜 签发凭证: ${credential.type.join(', ')} -> ${credentialSubject.id || '(无主体DID)'}`);
+    return credential;
+  }
+
+  /**
+   * 在智能体描述中公开一个凭证
+   */
+  public async addCredential(credential: VerifiableCredential): Promise<void> {
+    this.assertActive();
+    this.options.credentials.push(credential);
+
+    if (this.agentDescription) {
+      this.agentDescription['ad:credentials'] = [...(this.agentDescription['ad:credentials'] || []), credential];
+    }
+
+    await this.refreshProofs();
+    this.log('info', `✅ 添加凭证: ${credential.type.join(', ')}`);
+  }
+
+  /**
+   * 确保当前身份验证密钥位于assertionMethod关系中，返回其ID
+   * 旧版本生成的文档没有assertionMethod关系，补充时经updateDID生成新版本
+   */
+  private async ensureAssertionMethod(): Promise<string> {
+    const keyId = this.getSigningKeyId();
+    if (!this.hasAssertionMethod(keyId)) {
+      await this.updateDID(this.autoDid!, { addRelationships: [{ id: keyId, relationships: ['assertionMethod'] }] });
+    }
+    return keyId;
+  }
+
+  /**
+   * 当前身份验证密钥的ID（authentication中首个引用）
+   */
+  private getSigningKeyId(): string {
+    const keyId = this.didDocument.authentication.find((ref: any) => typeof ref === 'string');
+    if (!keyId) {
+      throw new Error('DID文档中没有可用于签名的身份验证密钥');
+    }
+    return keyId;
+  }
+
+  private hasAssertionMethod(keyId: string): boolean {
+    return Array.isArray(this.didDocument.assertionMethod) && this.didDocument.assertionMethod.includes(keyId);
+  }
+
+  /**
+   * 使用当前身份验证密钥重新签署DID文档和智能体描述（需开启signDocuments）
+   * 文档内容每次变更后调用，proof原地替换
+   */
+  private async refreshProofs(): Promise<void> {
+    if (!this.options.signDocuments || !this.didDocument || !this.signer || this.deactivatedAt) {
+      return;
+    }
+
+    const keyId = this.getSigningKeyId();
+    if (!this.hasAssertionMethod(keyId)) {
+      // updateDID补充assertionMethod后会再次调用本方法完成签署
+      await this.ensureAssertionMethod();
+      return;
+    }
+    this.didDocument.proof = (await signDataIntegrity(this.didDocument, this.signer, keyId)).proof;
+    if (this.agentDescription) {
+      this.agentDescription.proof = (await signDataIntegrity(this.agentDescription, this.signer, keyId)).proof;
+    }
+    this.log('debug', `🔏 已签署DID文档和智能体描述: ${keyId}`);
+  }
+
+  /**
+   * 将当前身份写回密钥库（如已配置）
+   */
+  private async persistIdentity(): Promise<void> {
+    const identity = this.options.keystore;
+    if (!identity || !this.autoDid || !this.privateKey || !this.keys) {
+      return;
+    }
+
+    await identity.keystore.save(identity.name, {
+      did: this.autoDid,
+      keyType: this.options.keyType,
+      privateKey: this.privateKey,
+      keys: this.keys,
+      didDocument: this.didDocument,
+      documentHistory: this.documentHistory,
+      deactivatedAt: this.deactivatedAt || undefined,
+      createdAt: this.identityCreatedAt
+    }, identity.passphrase);
   }
 
   /**
    * 添加接口
    */
-  public addInterface(iface: AgentInterface): void {
+  public async addInterface(iface: AgentInterface): Promise<void> {
+    this.assertActive();
     this.options.interfaces.push(iface);
     
     if (this.agentDescription) {
       this.agentDescription['ad:interfaces'].push({
         "@type": `ad:${iface.type}`,
-        "url": iface.url || this.getDefaultInterfaceUrl(),
+        "url": this.withProtocol(iface.url || this.getDefaultInterfaceUrl()),
         "description": iface.description
       });
     }
 
+    await this.refreshProofs();
     this.log('info', `✅ 添加接口: ${iface.type}`);
   }
 
@@ -271,13 +892,15 @@ export class DIDAutoConfig {
    * 获取配置信息
    */
   public getConfig(): DIDConfig {
-    if (!this.autoDid || !this.privateKey || !this.publicKey || !this.didDocument || !this.agentDescription) {
+    if (!this.autoDid || !this.signer || !this.keys || !this.publicKey || !this.didDocument || !this.agentDescription) {
       throw new Error('DID not configured yet. Call autoSetup() first.');
     }
 
     return {
       did: this.autoDid,
-      privateKey: this.privateKey,
+      privateKey: this.privateKey || '',
+      signer: this.signer,
+      keys: this.keys,
       publicKey: this.publicKey,
       didDocument: this.didDocument,
       agentDescription: this.agentDescription,
@@ -299,12 +922,36 @@ export class DIDAutoConfig {
    * 获取私钥
    */
   public getPrivateKey(): string {
+    if (this.options.signer) {
+      throw new Error('私钥由外部签名器持有');
+    }
+    this.assertActive();
     if (!this.privateKey) {
       throw new Error('Private key not configured yet. Call autoSetup() first.');
     }
     return this.privateKey;
   }
 
+  /**
+   * 获取身份验证密钥的签名器
+   */
+  public getSigner(): Signer {
+    if (!this.signer) {
+      throw new Error('Signer not configured yet. Call autoSetup() first.');
+    }
+    return this.signer;
+  }
+
+  /**
+   * 获取所有验证方法的私钥（DID停用后为空）
+   */
+  public getKeys(): KeyBundle {
+    if (!this.keys) {
+      throw new Error('Private key not configured yet. Call autoSetup() first.');
+    }
+    return this.keys;
+  }
+
   /**
    * 获取公钥
    */
@@ -325,6 +972,79 @@ export class DIDAutoConfig {
     return this.didDocument;
   }
 
+  /**
+   * 按版本号或时间获取DID文档版本，未指定时返回最新版本
+   * @returns 不存在（或已超出保留数量）时返回null
+   */
+  public getDIDDocumentVersion(query: DIDVersionQuery = {}): DIDDocumentVersion | null {
+    if (query.versionId !== undefined) {
+      return this.documentHistory.find(v => v.versionId === query.versionId) || null;
+    }
+
+    if (query.versionTime !== undefined) {
+      const time = Date.parse(query.versionTime);
+      if (isNaN(time)) {
+        return null;
+      }
+      const versions = this.documentHistory.filter(v => Date.parse(v.updated) <= time);
+      return versions[versions.length - 1] || null;
+    }
+
+    return this.documentHistory[this.documentHistory.length - 1] || null;
+  }
+
+  /**
+   * 获取DID文档的全部历史版本（从旧到新）
+   */
+  public getDocumentHistory(): DIDDocumentVersion[] {
+    return [...this.documentHistory];
+  }
+
+  /**
+   * 获取DID文档元数据，未指定版本时为最新版本
+   */
+  public getDocumentMetadata(versionId?: string): DIDDocumentMetadata {
+    const index = versionId === undefined
+      ? this.documentHistory.length - 1
+      : this.documentHistory.findIndex(v => v.versionId === versionId);
+    if (index < 0) {
+      throw new Error(versionId === undefined ? 'DID document not configured yet. Call autoSetup() first.' : `DID文档版本不存在: ${versionId}`);
+    }
+
+    const version = this.documentHistory[index];
+    const next = this.documentHistory[index + 1];
+    return {
+      created: this.identityCreatedAt,
+      updated: version.updated,
+      versionId: version.versionId,
+      ...(next ? { nextVersionId: next.versionId, nextUpdate: next.updated } : {}),
+      ...(this.deactivatedAt ? { deactivated: true } : {})
+    };
+  }
+
+  /**
+   * 生成DID文档端点的响应，供HTTP路由直接返回
+   *
+   * 正常时为所查询版本的文档；版本不存在时为404；
+   * DID已停用时为410，响应体包含文档和deactivated元数据。
+   */
+  public getDIDDocumentResponse(query: DIDVersionQuery = {}): DIDDocumentResponse {
+    const version = this.getDIDDocumentVersion(query);
+    if (!version) {
+      return { status: 404, body: { error: 'Not Found', message: 'DID文档版本不存在' } };
+    }
+
+    const latest = this.documentHistory[this.documentHistory.length - 1];
+    const document = version === latest ? this.getDIDDocument() : version.document;
+    if (this.deactivatedAt) {
+      return {
+        status: DID_DEACTIVATED_STATUS,
+        body: { didDocument: document, didDocumentMetadata: this.getDocumentMetadata(version.versionId) }
+      };
+    }
+    return { status: 200, body: document };
+  }
+
   /**
    * 获取智能体描述文档
    */
@@ -354,25 +1074,25 @@ export class DIDAutoConfig {
    */
   public validateDIDDocument(): boolean {
     try {
-      const doc = this.getDIDDocument();
-      
-      // 基本验证
-      if (!doc['@context'] || !doc.id || !doc.verificationMethod) {
-        return false;
-      }
+      const report = this.getValidationReport();
+      report.warnings.forEach(issue => this.log('warn', `DID文档警告 ${issue.path}: ${issue.message}`));
+      report.errors.forEach(issue => this.log('error', `DID文档错误 ${issue.path}: ${issue.message}`));
 
       // 验证DID格式
-      if (!doc.id.startsWith('did:wba:')) {
-        return false;
-      }
-
-      return true;
+      return report.valid && this.getDIDDocument().id.startsWith('did:wba:');
     } catch (error) {
       this.log('error', `DID文档验证失败: ${error}`);
       return false;
     }
   }
 
+  /**
+   * 生成DID文档的详细校验报告
+   */
+  public getValidationReport(): DIDValidationReport {
+    return validateDIDDocument(this.getDIDDocument(), { did: this.getDID() });
+  }
+
   /**
    * 日志输出
    */
@@ -387,5 +1107,19 @@ export class DIDAutoConfig {
   }
 }
 
+/**
+ * 从文档中移除验证方法及其在各验证关系中的引用
+ */
+function removeMethod(document: any, keyId: string): void {
+  const notKey = (ref: any) => (typeof ref === 'string' ? ref : ref.id) !== keyId;
+
+  document.verificationMethod = (document.verificationMethod || []).filter(notKey);
+  for (const relationship of VERIFICATION_RELATIONSHIPS) {
+    if (Array.isArray(document[relationship])) {
+      document[relationship] = document[relationship].filter(notKey);
+    }
+  }
+}
+
 // 导出主要类和接口
 export { DIDAutoConfig as default };
@@ -0,0 +1,27 @@
+import { describe, expect, it } from '@jest/globals';
+import { KeyType, VerificationMethod } from './anp-key-generator';
+import { generateDIDKey, isDIDKey, resolveDIDKey } from './did-key';
+import { decryptMessage, encryptMessage } from './e2ee';
+import { findBundleKey, importPrivateKey } from './key-format';
+
+describe('did:key', () => {
+  it.each([KeyType.ED25519, KeyType.SECP256K1])('%s 身份展开的文档与生成的文档一致', async keyType => {
+    const identity = await generateDIDKey(keyType);
+
+    expect(isDIDKey(identity.did)).toBe(true);
+    expect(resolveDIDKey(identity.did)).toEqual(JSON.parse(identity.did_document));
+  });
+
+  it('Ed25519身份派生的X25519密钥可以解密发给它的消息', async () => {
+    const identity = await generateDIDKey(KeyType.ED25519);
+    const keyAgreement = resolveDIDKey(identity.did).keyAgreement![0] as VerificationMethod;
+    const { privateKey } = importPrivateKey(findBundleKey(identity.keys, 'keyAgreement')!.entry.privateKey);
+
+    const envelope = encryptMessage({ hello: 'world' }, keyAgreement, 'did:key:sender');
+    expect(decryptMessage(envelope, privateKey, keyAgreement.id)).toEqual({ hello: 'world' });
+  });
+
+  it('拒绝不是did:key的标识符', () => {
+    expect(() => resolveDIDKey('did:wba:example.com')).toThrow();
+  });
+});
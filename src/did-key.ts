@@ -0,0 +1,113 @@
+/**
+ * ANP did:key模块
+ * 生成和解析did:key标识符，公钥直接编码在DID中，无需托管DID文档
+ */
+
+import * as ed25519 from '@noble/ed25519';
+import { ANPKeyGenerator, DIDDocument, KeyPairResult, KeyType, VerificationMethod } from './anp-key-generator';
+import { decodePublicKeyMultibase, encodePublicKeyMultibase, exportPrivateKey } from './key-format';
+
+// did:key方法前缀
+export const DID_KEY_PREFIX = 'did:key:';
+
+/**
+ * 判断是否为did:key标识符
+ */
+export function isDIDKey(did: string): boolean {
+  return did.startsWith(DID_KEY_PREFIX);
+}
+
+/**
+ * 生成did:key身份
+ *
+ * Ed25519身份同时派生出X25519密钥协商密钥，可直接用于端到端加密；
+ * secp256k1身份只包含身份验证密钥。
+ */
+export async function generateDIDKey(keyType: KeyType = KeyType.ED25519): Promise<KeyPairResult> {
+  const generator = new ANPKeyGenerator('');
+  let keyPair: { privateKey: Uint8Array; publicKey: Uint8Array };
+
+  if (keyType === KeyType.ED25519) {
+    keyPair = await generator.generateEd25519KeyPair();
+  } else if (keyType === KeyType.SECP256K1) {
+    keyPair = await generator.generateSecp256k1KeyPair();
+  } else {
+    throw new Error(`did:key不支持的密钥类型: ${keyType}`);
+  }
+
+  const did = `${DID_KEY_PREFIX}${encodePublicKeyMultibase(keyPair.publicKey, keyType)}`;
+  const didDocument = resolveDIDKey(did);
+  const authKeyId = didDocument.authentication[0] as string;
+  const privateKey = exportPrivateKey(keyPair.privateKey, keyType, 'pem');
+
+  const result: KeyPairResult = {
+    did_document: JSON.stringify(didDocument, null, 2),
+    private_key: privateKey,
+    keys: {
+      [authKeyId]: { purpose: 'authentication', keyType, privateKey }
+    },
+    did
+  };
+
+  if (keyType === KeyType.ED25519) {
+    // X25519私钥为Ed25519私钥SHA-512哈希的前32字节（已按X25519要求处理）
+    const { head } = await ed25519.utils.getExtendedPublicKey(keyPair.privateKey);
+    const keyAgreementId = (didDocument.keyAgreement![0] as VerificationMethod).id;
+    result.keys[keyAgreementId] = {
+      purpose: 'keyAgreement',
+      keyType: KeyType.X25519,
+      privateKey: exportPrivateKey(head, KeyType.X25519, 'pem')
+    };
+  }
+
+  return result;
+}
+
+/**
+ * 将did:key展开为DID文档（无网络请求）
+ */
+export function resolveDIDKey(did: string): DIDDocument {
+  if (!isDIDKey(did)) {
+    throw new Error(`无效的did:key标识符: ${did}`);
+  }
+
+  const multibase = did.slice(DID_KEY_PREFIX.length);
+  const { publicKey, keyType } = decodePublicKeyMultibase(multibase);
+  if (keyType !== KeyType.ED25519 && keyType !== KeyType.SECP256K1) {
+    throw new Error(`did:key不支持的密钥类型: ${keyType}`);
+  }
+
+  const authMethod: VerificationMethod = {
+    id: `${did}#${multibase}`,
+    type: keyType,
+    controller: did,
+    publicKeyMultibase: multibase
+  };
+
+  const didDocument: DIDDocument = {
+    '@context': [
+      'https://www.w3.org/ns/did/v1',
+      keyType === KeyType.ED25519
+        ? 'https://w3id.org/security/suites/ed25519-2020/v1'
+        : 'https://w3id.org/security/suites/secp256k1-2019/v1'
+    ],
+    id: did,
+    verificationMethod: [authMethod],
+    authentication: [authMethod.id],
+    assertionMethod: [authMethod.id]
+  };
+
+  if (keyType === KeyType.ED25519) {
+    // 由Ed25519公钥经双有理映射得到X25519公钥
+    const x25519Multibase = encodePublicKeyMultibase(ed25519.Point.fromHex(publicKey).toX25519(), KeyType.X25519);
+    didDocument['@context'].push('https://w3id.org/security/suites/x25519-2019/v1');
+    didDocument.keyAgreement = [{
+      id: `${did}#${x25519Multibase}`,
+      type: KeyType.X25519,
+      controller: did,
+      publicKeyMultibase: x25519Multibase
+    }];
+  }
+
+  return didDocument;
+}
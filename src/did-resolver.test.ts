@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator } from './anp-key-generator';
+import { DIDResolver } from './did-resolver';
+
+function createResolver(documents: Record<string, any>, requests: string[] = []) {
+  return new DIDResolver({
+    logLevel: 'error',
+    fetch: async url => {
+      requests.push(url);
+      const document = documents[url];
+      return document
+        ? new Response(JSON.stringify(document), { status: 200 })
+        : new Response('not found', { status: 404, statusText: 'Not Found' });
+    }
+  });
+}
+
+describe('DIDResolver.getDocumentUrl', () => {
+  const resolver = new DIDResolver();
+
+  it.each([
+    ['did:wba:example.com', 'https://example.com/.well-known/did.json'],
+    ['did:wba:example.com:user:alice', 'https://example.com/user/alice/did.json'],
+    ['did:wba:example.com%3A8800:user:alice', 'https://example.com:8800/user/alice/did.json'],
+    // 未编码的纯数字段是路径，不是端口
+    ['did:wba:example.com:2024:alice', 'https://example.com/2024/alice/did.json']
+  ])('%s -> %s', (did, url) => {
+    expect(resolver.getDocumentUrl(did)).toBe(url);
+  });
+
+  it.each(['did:web:example.com', 'did:wba:', 'did:wba:exa mple.com'])('拒绝无效的标识符 %s', did => {
+    expect(() => resolver.getDocumentUrl(did)).toThrow();
+  });
+
+  it('SDK生成的带端口DID解析到生成时的地址', async () => {
+    const { did } = await new ANPKeyGenerator('192.168.1.10:3000', 'auto-agent').generateKeyPair();
+
+    expect(did).toBe('did:wba:192.168.1.10%3A3000:auto-agent');
+    expect(new DIDResolver({ protocol: 'http' }).getDocumentUrl(did)).toBe('http://192.168.1.10:3000/auto-agent/did.json');
+  });
+});
+
+describe('DIDResolver.resolve', () => {
+  it('获取、校验并缓存文档', async () => {
+    const { did, did_document } = await new ANPKeyGenerator('example.com', 'alice').generateKeyPair();
+    const requests: string[] = [];
+    const resolver = createResolver({ 'https://example.com/alice/did.json': JSON.parse(did_document) }, requests);
+
+    expect((await resolver.resolve(did)).id).toBe(did);
+    await resolver.resolve(did);
+    expect(requests).toHaveLength(1);
+
+    await resolver.resolve(did, true);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('拒绝id与请求的DID不一致的文档', async () => {
+    const { did_document } = await new ANPKeyGenerator('evil.com', 'alice').generateKeyPair();
+    const resolver = createResolver({ 'https://example.com/alice/did.json': JSON.parse(did_document) });
+
+    await expect(resolver.resolve('did:wba:example.com:alice')).rejects.toThrow('id_mismatch');
+  });
+
+  it('clearCache(did)同时清除该DID各版本的缓存', async () => {
+    const { did, did_document } = await new ANPKeyGenerator('example.com', 'alice').generateKeyPair();
+    const document = JSON.parse(did_document);
+    const requests: string[] = [];
+    const resolver = createResolver({
+      'https://example.com/alice/did.json': document,
+      'https://example.com/alice/did.json?versionId=1': document
+    }, requests);
+
+    await resolver.resolve(did);
+    await resolver.resolve(did, false, { versionId: '1' });
+    resolver.clearCache(did);
+    await resolver.resolve(did);
+    await resolver.resolve(did, false, { versionId: '1' });
+
+    expect(requests).toHaveLength(4);
+  });
+
+  it('HTTP错误时抛出', async () => {
+    await expect(createResolver({}).resolve('did:wba:example.com:alice')).rejects.toThrow('HTTP 404');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * ANP DID解析模块
+ * 提供did:wba到DID文档的解析、文档校验与缓存功能，did:key在本地展开
+ */
+
+import { DIDDocument, DIDVersionQuery } from './anp-key-generator';
+import { isDIDKey, resolveDIDKey } from './did-key';
+import { DIDValidationReport, validateDIDDocument } from './did-validator';
+
+// 可注入的fetch函数类型
+export type DIDFetch = (url: string) => Promise<Response>;
+
+// 类型定义
+export interface DIDResolverOptions {
+  /** 自定义fetch函数，默认使用全局fetch */
+  fetch?: DIDFetch;
+  /** 缓存有效期（毫秒），0表示不缓存。对方停用DID或轮换密钥后，最长在此时间后生效；需要立即生效时调用clearCache(did) */
+  cacheTTL?: number;
+  /** 获取DID文档使用的协议 */
+  protocol?: 'https' | 'http';
+  /** 日志级别 */
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+// 已停用DID的文档端点返回410 Gone，响应体包含didDocumentMetadata.deactivated
+export const DID_DEACTIVATED_STATUS = 410;
+
+/**
+ * DID已停用错误，验证方可据此给出明确的拒绝原因
+ */
+export class DIDDeactivatedError extends Error {
+  constructor(public readonly did: string) {
+    super(`DID已停用: ${did}`);
+    this.name = 'DIDDeactivatedError';
+  }
+}
+
+interface CacheEntry {
+  document: DIDDocument;
+  expiresAt: number;
+}
+
+/**
+ * DID解析器类
+ */
+export class DIDResolver {
+  private options: Required<DIDResolverOptions>;
+  private cache: Map<string, CacheEntry> = new Map();
+
+  constructor(options: DIDResolverOptions = {}) {
+    this.options = {
+      fetch: (url: string) => fetch(url),
+      cacheTTL: 60 * 1000,
+      protocol: 'https',
+      logLevel: 'info',
+      ...options
+    };
+  }
+
+  /**
+   * 核心方法：解析DID为DID文档
+   * @param noCache 跳过缓存重新获取（例如对方刚轮换了密钥）
+   * @param version 获取指定版本（versionId）或指定时间（versionTime）的文档，需托管方支持
+   * @throws DIDDeactivatedError 托管方声明DID已停用
+   */
+  async resolve(did: string, noCache: boolean = false, version?: DIDVersionQuery): Promise<DIDDocument> {
+    // did:key直接由标识符展开，不需要网络请求和缓存
+    if (isDIDKey(did)) {
+      return resolveDIDKey(did);
+    }
+
+    const query = this.getVersionQuery(version);
+    const cacheKey = query ? `${did}?${query}` : did;
+    const cached = this.cache.get(cacheKey);
+    if (!noCache && cached && cached.expiresAt > Date.now()) {
+      this.log('debug', `命中缓存: ${cacheKey}`);
+      return cached.document;
+    }
+
+    const document = await this.fetchDocument(did, version);
+    this.validateDocument(document, did);
+
+    if (this.options.cacheTTL > 0) {
+      this.cache.set(cacheKey, { document, expiresAt: Date.now() + this.options.cacheTTL });
+    }
+
+    return document;
+  }
+
+  /**
+   * 获取DID文档并生成详细校验报告（不使用缓存，结构有误的文档也会返回报告）
+   */
+  async validate(did: string, version?: DIDVersionQuery): Promise<DIDValidationReport> {
+    const document = isDIDKey(did) ? resolveDIDKey(did) : await this.fetchDocument(did, version);
+    return validateDIDDocument(document, { did });
+  }
+
+  /**
+   * 从did:wba对应的地址获取原始文档
+   */
+  private async fetchDocument(did: string, version?: DIDVersionQuery): Promise<any> {
+    const query = this.getVersionQuery(version);
+    const url = query ? `${this.getDocumentUrl(did)}?${query}` : this.getDocumentUrl(did);
+    this.log('debug', `获取DID文档: ${url}`);
+
+    const response = await this.options.fetch(url);
+    if (response.status === DID_DEACTIVATED_STATUS) {
+      const body: any = await response.json().catch(() => null);
+      if (body?.didDocumentMetadata?.deactivated === true) {
+        this.log('warn', `DID已停用: ${did}`);
+        throw new DIDDeactivatedError(did);
+      }
+    }
+    if (!response.ok) {
+      throw new Error(`获取DID文档失败 ${url}: HTTP ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * 版本查询参数（versionId / versionTime），未指定时返回空字符串
+   */
+  private getVersionQuery(version?: DIDVersionQuery): string {
+    const params = new URLSearchParams();
+    if (version?.versionId !== undefined) {
+      params.set('versionId', version.versionId);
+    }
+    if (version?.versionTime !== undefined) {
+      params.set('versionTime', version.versionTime);
+    }
+    return params.toString();
+  }
+
+  /**
+   * 将did:wba映射为DID文档URL
+   *
+   * did:wba:example.com              -> https://example.com/.well-known/did.json
+   * did:wba:example.com%3A8800:u:bob -> https://example.com:8800/u/bob/did.json
+   *
+   * 端口必须编码为%3A，未编码时按路径段处理（did:wba:example.com:2024:alice -> /2024/alice/did.json）
+   */
+  public getDocumentUrl(did: string): string {
+    const parts = did.split(':');
+    if (parts.length < 3 || parts[0] !== 'did' || parts[1] !== 'wba' || !parts[2]) {
+      throw new Error(`无效的did:wba标识符: ${did}`);
+    }
+
+    const host = decodeURIComponent(parts[2]);
+    const path = parts.slice(3);
+
+    if (!/^[A-Za-z0-9.-]+(:\d+)?$/.test(host)) {
+      throw new Error(`did:wba域名无效: ${host}`);
+    }
+
+    const base = `${this.options.protocol}://${host}`;
+    if (path.length === 0) {
+      return `${base}/.well-known/did.json`;
+    }
+    return `${base}/${path.map(decodeURIComponent).join('/')}/did.json`;
+  }
+
+  /**
+   * 按validateDIDDocument完整校验DID文档（含文档id与请求的DID一致），有错误时抛出
+   */
+  public validateDocument(document: any, did: string): asserts document is DIDDocument {
+    const report = validateDIDDocument(document, { did });
+    if (!report.valid) {
+      const details = report.errors.map(issue => `[${issue.code}] ${issue.path}: ${issue.message}`).join('; ');
+      throw new Error(`DID文档无效: ${details}`);
+    }
+  }
+
+  /**
+   * 清除缓存，未指定DID时清除全部；指定DID时同时清除其各版本的缓存
+   */
+  public clearCache(did?: string): void {
+    if (did) {
+      for (const key of this.cache.keys()) {
+        if (key === did || key.startsWith(`${did}?`)) {
+          this.cache.delete(key);
+        }
+      }
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * 日志输出
+   */
+  private log(level: string, message: string): void {
+    const levels = ['debug', 'info', 'warn', 'error'];
+    const currentLevel = levels.indexOf(this.options.logLevel);
+    const messageLevel = levels.indexOf(level);
+
+    if (messageLevel >= currentLevel) {
+      console.log(`[${new Date().toISOString()}] [DID-RESOLVER] [${level.toUpperCase()}] ${message}`);
+    }
+  }
+}
+
+// 导出主要类和接口
+export { DIDResolver as default };
@@ -0,0 +1,386 @@
+/**
+ * ANP DID文档校验模块
+ * 对任意DID文档做完整检查，返回带JSON路径的错误和警告列表，而不是遇到第一个问题就抛出
+ */
+
+import { KeyType } from './anp-key-generator';
+import { getMethodKeyType, importPublicKey } from './key-format';
+
+// DID Core上下文
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+
+// 本SDK能够解析的DID方法
+const SUPPORTED_DID_METHODS = ['wba', 'key'];
+
+// 验证关系：keyAgreement只能使用密钥协商密钥，其余只能使用签名密钥
+const SIGNING_RELATIONSHIPS = ['authentication', 'assertionMethod', 'humanAuthorization', 'capabilityInvocation', 'capabilityDelegation'];
+const KEY_AGREEMENT_RELATIONSHIP = 'keyAgreement';
+
+// 类型定义
+export type DIDValidationSeverity = 'error' | 'warning';
+
+export type DIDValidationCode =
+  | 'invalid_document'
+  | 'invalid_context'
+  | 'invalid_id'
+  | 'id_mismatch'
+  | 'unsupported_did_method'
+  | 'controller_mismatch'
+  | 'duplicate_id'
+  | 'missing_authentication'
+  | 'invalid_relationship'
+  | 'unresolved_reference'
+  | 'unsupported_key_type'
+  | 'invalid_key'
+  | 'invalid_key_purpose'
+  | 'expired_key'
+  | 'invalid_service'
+  | 'invalid_service_endpoint';
+
+export interface DIDValidationIssue {
+  severity: DIDValidationSeverity;
+  code: DIDValidationCode;
+  /** 问题所在位置的JSON路径，例如 $.verificationMethod[0].publicKeyJwk */
+  path: string;
+  message: string;
+}
+
+export interface DIDValidationReport {
+  /** 没有错误即为有效，警告不影响结果 */
+  valid: boolean;
+  errors: DIDValidationIssue[];
+  warnings: DIDValidationIssue[];
+}
+
+export interface DIDValidationOptions {
+  /** 期望的DID，例如解析时请求的DID */
+  did?: string;
+}
+
+type ReportFn = (severity: DIDValidationSeverity, code: DIDValidationCode, path: string, message: string) => void;
+
+/**
+ * 校验DID文档
+ */
+export function validateDIDDocument(document: any, options: DIDValidationOptions = {}): DIDValidationReport {
+  const issues: DIDValidationIssue[] = [];
+  const report: ReportFn = (severity, code, path, message) => {
+    issues.push({ severity, code, path, message });
+  };
+
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    report('error', 'invalid_document', '$', 'DID文档不是JSON对象');
+    return buildReport(issues);
+  }
+
+  validateContext(document['@context'], report);
+
+  // 文档id
+  const did: string | undefined = typeof document.id === 'string' ? document.id : undefined;
+  if (!did || !isDID(did)) {
+    report('error', 'invalid_id', '$.id', `文档id不是有效的DID: ${document.id}`);
+  } else {
+    if (options.did !== undefined && did !== options.did) {
+      report('error', 'id_mismatch', '$.id', `文档id为 ${did}，期望 ${options.did}`);
+    }
+    const method = did.split(':')[1];
+    if (!SUPPORTED_DID_METHODS.includes(method)) {
+      report('warning', 'unsupported_did_method', '$.id', `本SDK无法解析did:${method}`);
+    }
+  }
+
+  if (document.controller !== undefined) {
+    const controllers = ([] as any[]).concat(document.controller);
+    if (controllers.some(c => typeof c !== 'string' || !isDID(c))) {
+      report('error', 'invalid_id', '$.controller', 'controller必须是DID或DID数组');
+    } else if (did && !controllers.includes(did)) {
+      report('warning', 'controller_mismatch', '$.controller', `文档由 ${controllers.join(', ')} 控制，而非其自身`);
+    }
+  }
+
+  // 验证方法：id -> 方法及其路径，用于解析引用和检查重复
+  const methods = new Map<string, { method: any; path: string }>();
+  const ids = new Map<string, string>();
+
+  if (document.verificationMethod !== undefined) {
+    if (!Array.isArray(document.verificationMethod)) {
+      report('error', 'invalid_document', '$.verificationMethod', 'verificationMethod必须是数组');
+    } else {
+      document.verificationMethod.forEach((method: any, index: number) => {
+        const path = `$.verificationMethod[${index}]`;
+        const id = validateVerificationMethod(method, path, did, report);
+        if (id) {
+          checkDuplicateId(id, path, ids, report);
+          // 重复id以首次出现的方法为准
+          if (!methods.has(id)) {
+            methods.set(id, { method, path });
+          }
+        }
+      });
+    }
+  }
+
+  // 验证关系
+  for (const relationship of [...SIGNING_RELATIONSHIPS, KEY_AGREEMENT_RELATIONSHIP]) {
+    const entries = document[relationship];
+    const relationshipPath = `$.${relationship}`;
+
+    if (entries === undefined) {
+      if (relationship === 'authentication') {
+        report('error', 'missing_authentication', relationshipPath, '文档缺少authentication，无法用于DIDWba认证');
+      }
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      report('error', 'invalid_relationship', relationshipPath, `${relationship}必须是数组`);
+      continue;
+    }
+    if (relationship === 'authentication' && entries.length === 0) {
+      report('error', 'missing_authentication', relationshipPath, 'authentication为空，无法用于DIDWba认证');
+    }
+
+    entries.forEach((entry: any, index: number) => {
+      const path = `${relationshipPath}[${index}]`;
+      let method: any;
+
+      if (typeof entry === 'string') {
+        const resolved = methods.get(absoluteId(entry, did));
+        if (!resolved) {
+          report('error', 'unresolved_reference', path, `${entry} 不在verificationMethod中`);
+          return;
+        }
+        method = resolved.method;
+      } else {
+        // 内嵌方法：与verificationMethod中同id的方法内容一致时视为同一个方法
+        const id = validateVerificationMethod(entry, path, did, report);
+        if (!id) {
+          return;
+        }
+        const listed = methods.get(id);
+        if (!listed || JSON.stringify(listed.method) !== JSON.stringify(entry)) {
+          checkDuplicateId(id, path, ids, report);
+        }
+        method = entry;
+      }
+
+      const keyType = getMethodKeyType(method?.type);
+      if (!keyType) {
+        return;
+      }
+      if (relationship === KEY_AGREEMENT_RELATIONSHIP && keyType !== KeyType.X25519) {
+        report('error', 'invalid_key_purpose', path, `keyAgreement只能使用X25519密钥，${method.id} 的类型为 ${method.type}`);
+      } else if (relationship !== KEY_AGREEMENT_RELATIONSHIP && keyType === KeyType.X25519) {
+        report('error', 'invalid_key_purpose', path, `${relationship}不能使用密钥协商密钥 ${method.id}`);
+      }
+    });
+  }
+
+  // 服务端点
+  if (document.service !== undefined) {
+    if (!Array.isArray(document.service)) {
+      report('error', 'invalid_service', '$.service', 'service必须是数组');
+    } else {
+      document.service.forEach((service: any, index: number) => {
+        const path = `$.service[${index}]`;
+        if (!service || typeof service !== 'object') {
+          report('error', 'invalid_service', path, 'service条目不是对象');
+          return;
+        }
+
+        if (typeof service.id !== 'string' || !service.id) {
+          report('error', 'invalid_service', `${path}.id`, 'service缺少id');
+        } else {
+          if (!isValidId(service.id)) {
+            report('warning', 'invalid_service', `${path}.id`, `service id应为带片段的DID URL: ${service.id}`);
+          }
+          checkDuplicateId(absoluteId(service.id, did), `${path}.id`, ids, report);
+        }
+        if (typeof service.type !== 'string' && !(Array.isArray(service.type) && service.type.length > 0)) {
+          report('error', 'invalid_service', `${path}.type`, 'service缺少type');
+        }
+        validateServiceEndpoint(service.serviceEndpoint, `${path}.serviceEndpoint`, report);
+      });
+    }
+  }
+
+  return buildReport(issues);
+}
+
+/**
+ * 校验@context
+ */
+function validateContext(context: any, report: ReportFn): void {
+  const contexts = typeof context === 'string' ? [context] : context;
+  if (!Array.isArray(contexts) || contexts.length === 0) {
+    report('error', 'invalid_context', '$["@context"]', '文档缺少@context');
+    return;
+  }
+
+  contexts.forEach((entry: any, index: number) => {
+    if (typeof entry !== 'string' && (typeof entry !== 'object' || entry === null)) {
+      report('error', 'invalid_context', `$["@context"][${index}]`, '@context条目必须是URL或对象');
+    }
+  });
+  if (contexts[0] !== DID_CONTEXT) {
+    report('error', 'invalid_context', '$["@context"][0]', `@context第一项必须是 ${DID_CONTEXT}`);
+  }
+}
+
+/**
+ * 校验单个验证方法，返回其完整id（id无效时返回null）
+ */
+function validateVerificationMethod(method: any, path: string, did: string | undefined, report: ReportFn): string | null {
+  if (!method || typeof method !== 'object') {
+    report('error', 'invalid_document', path, '验证方法不是对象');
+    return null;
+  }
+
+  if (typeof method.id !== 'string' || !isValidId(method.id)) {
+    report('error', 'invalid_id', `${path}.id`, `验证方法id必须是带片段的DID URL: ${method.id}`);
+    return null;
+  }
+  const id = absoluteId(method.id, did);
+
+  // 验证方法应属于本文档，并由文档主体控制
+  if (did && id.split('#')[0] !== did) {
+    report('error', 'id_mismatch', `${path}.id`, `验证方法 ${id} 不属于 ${did}`);
+  }
+  if (typeof method.controller !== 'string' || !isDID(method.controller)) {
+    report('error', 'invalid_id', `${path}.controller`, `验证方法 ${id} 的controller无效`);
+  } else if (did && method.controller !== did) {
+    report('warning', 'controller_mismatch', `${path}.controller`, `验证方法 ${id} 由 ${method.controller} 控制`);
+  }
+
+  if (typeof method.type !== 'string') {
+    report('error', 'unsupported_key_type', `${path}.type`, `验证方法 ${id} 缺少type`);
+    return id;
+  }
+
+  // 公钥必须且只能使用一种编码
+  const hasJwk = method.publicKeyJwk !== undefined;
+  const hasMultibase = method.publicKeyMultibase !== undefined;
+  if (!hasJwk && !hasMultibase) {
+    report('error', 'invalid_key', path, `验证方法 ${id} 缺少publicKeyJwk或publicKeyMultibase`);
+    return id;
+  }
+  if (hasJwk && hasMultibase) {
+    report('warning', 'invalid_key', path, `验证方法 ${id} 同时包含publicKeyJwk和publicKeyMultibase，将使用publicKeyJwk`);
+  }
+
+  const keyPath = `${path}.${hasJwk ? 'publicKeyJwk' : 'publicKeyMultibase'}`;
+  if (hasJwk && (typeof method.publicKeyJwk !== 'object' || method.publicKeyJwk === null)) {
+    report('error', 'invalid_key', keyPath, 'publicKeyJwk必须是对象');
+    return id;
+  }
+  if (!hasJwk && (typeof method.publicKeyMultibase !== 'string' || !method.publicKeyMultibase.startsWith('z'))) {
+    report('error', 'invalid_key', keyPath, 'publicKeyMultibase必须是base58btc编码（以z开头）');
+    return id;
+  }
+  if (hasJwk && method.publicKeyJwk.d !== undefined) {
+    report('error', 'invalid_key', `${keyPath}.d`, `验证方法 ${id} 的JWK包含私钥参数d`);
+  }
+
+  try {
+    const { keyType } = importPublicKey(method);
+    if (!getMethodKeyType(method.type)) {
+      report('warning', 'unsupported_key_type', `${path}.type`, `未识别的验证方法类型 ${method.type}，按公钥编码识别为 ${keyType}`);
+    }
+  } catch (error) {
+    const supported = !!getMethodKeyType(method.type);
+    report(
+      'error',
+      supported ? 'invalid_key' : 'unsupported_key_type',
+      supported ? keyPath : `${path}.type`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (method.expires !== undefined) {
+    const expires = typeof method.expires === 'string' ? Date.parse(method.expires) : NaN;
+    if (isNaN(expires)) {
+      report('error', 'invalid_key', `${path}.expires`, `验证方法 ${id} 的expires不是有效时间`);
+    } else if (expires <= Date.now()) {
+      report('warning', 'expired_key', `${path}.expires`, `验证方法 ${id} 已于 ${method.expires} 过期`);
+    }
+  }
+
+  return id;
+}
+
+/**
+ * 校验服务端点：URL字符串、URL数组或值为URL的映射
+ */
+function validateServiceEndpoint(endpoint: any, path: string, report: ReportFn): void {
+  if (typeof endpoint === 'string') {
+    if (!isURL(endpoint)) {
+      report('error', 'invalid_service_endpoint', path, `服务端点不是有效的URL: ${endpoint}`);
+    }
+    return;
+  }
+
+  if (Array.isArray(endpoint) && endpoint.length > 0) {
+    endpoint.forEach((entry, index) => validateServiceEndpoint(entry, `${path}[${index}]`, report));
+    return;
+  }
+
+  if (endpoint && typeof endpoint === 'object' && !Array.isArray(endpoint) && Object.keys(endpoint).length > 0) {
+    for (const [key, value] of Object.entries(endpoint)) {
+      validateServiceEndpoint(value, `${path}.${key}`, report);
+    }
+    return;
+  }
+
+  report('error', 'invalid_service_endpoint', path, 'serviceEndpoint必须是URL、URL数组或映射');
+}
+
+/**
+ * 记录id并检查是否与之前出现的id重复
+ */
+function checkDuplicateId(id: string, path: string, ids: Map<string, string>, report: ReportFn): void {
+  const previous = ids.get(id);
+  if (previous) {
+    report('error', 'duplicate_id', path, `id ${id} 与 ${previous} 重复`);
+  } else {
+    ids.set(id, path);
+  }
+}
+
+function buildReport(issues: DIDValidationIssue[]): DIDValidationReport {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning')
+  };
+}
+
+function isDID(value: string): boolean {
+  return /^did:[a-z0-9]+:[A-Za-z0-9._:%-]*[A-Za-z0-9._%-]$/.test(value);
+}
+
+/**
+ * 带片段的DID URL，或相对片段引用（#key-1）
+ */
+function isValidId(value: string): boolean {
+  const index = value.indexOf('#');
+  if (index < 0 || index === value.length - 1) {
+    return false;
+  }
+  return index === 0 || isDID(value.slice(0, index));
+}
+
+/**
+ * 相对引用（#key-1）展开为完整id
+ */
+function absoluteId(id: string, did: string | undefined): string {
+  return id.startsWith('#') && did ? `${did}${id}` : id;
+}
+
+function isURL(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
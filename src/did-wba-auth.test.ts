@@ -0,0 +1,103 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator, DIDDocument, KeyType } from './anp-key-generator';
+import { buildDIDWbaHeader, DIDWbaVerifier, parseDIDWbaHeader } from './did-wba-auth';
+import { DIDDeactivatedError } from './did-resolver';
+import { importPrivateKey } from './key-format';
+
+const SERVICE = 'agent.example.com';
+
+async function createIdentity(keyType: KeyType = KeyType.ED25519) {
+  const generator = new ANPKeyGenerator('client.example.com', 'alice');
+  const identity = await generator.generateKeyPair(keyType);
+  const document: DIDDocument = JSON.parse(identity.did_document);
+  const { privateKey } = importPrivateKey(identity.private_key);
+  const keyId = (document.authentication[0] as string).split('#')[1];
+
+  const sign = async (nonce: string = `n-${Math.random()}`) => {
+    const timestamp = new Date().toISOString();
+    const data = { nonce, timestamp, service: SERVICE, did: identity.did };
+    const signature = keyType === KeyType.ED25519
+      ? await generator.signEd25519(privateKey, data)
+      : await generator.signSecp256k1(privateKey, data);
+    return buildDIDWbaHeader({ did: identity.did, nonce, timestamp, verificationMethod: keyId, signature });
+  };
+
+  return { did: identity.did, document, sign };
+}
+
+// 解析有延迟，模拟网络请求期间的并发
+function createVerifier(document: DIDDocument) {
+  return new DIDWbaVerifier({
+    resolveDID: async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return document;
+    }
+  });
+}
+
+describe('DIDWba认证头', () => {
+  it('构建后解析得到相同字段', () => {
+    const header = { did: 'did:wba:a.com', nonce: 'n', timestamp: '2024-01-01T00:00:00Z', verificationMethod: 'key-1', signature: 's' };
+    expect(parseDIDWbaHeader(buildDIDWbaHeader(header))).toEqual(header);
+    expect(parseDIDWbaHeader('Bearer abc')).toBeNull();
+  });
+});
+
+describe('DIDWbaVerifier', () => {
+  it.each([KeyType.ED25519, KeyType.SECP256K1])('%s 签名的请求通过验证', async keyType => {
+    const { did, document, sign } = await createIdentity(keyType);
+    const result = await createVerifier(document).verify(await sign(), SERVICE);
+
+    expect(result).toMatchObject({ valid: true, did });
+  });
+
+  it('签名的service与本服务不一致时拒绝', async () => {
+    const { document, sign } = await createIdentity();
+    expect(await createVerifier(document).verify(await sign(), 'other.example.com'))
+      .toMatchObject({ valid: false, error: 'invalid_signature' });
+  });
+
+  it('顺序重放同一个头时拒绝', async () => {
+    const { document, sign } = await createIdentity();
+    const verifier = createVerifier(document);
+    const authorization = await sign();
+
+    expect((await verifier.verify(authorization, SERVICE)).valid).toBe(true);
+    expect(await verifier.verify(authorization, SERVICE)).toMatchObject({ valid: false, error: 'replayed_nonce' });
+  });
+
+  it('并发发送的重复请求只有一个通过', async () => {
+    const { document, sign } = await createIdentity();
+    const verifier = createVerifier(document);
+    const authorization = await sign();
+
+    const results = await Promise.all([1, 2, 3].map(() => verifier.verify(authorization, SERVICE)));
+
+    expect(results.filter(result => result.valid)).toHaveLength(1);
+    expect(results.filter(result => result.error === 'replayed_nonce')).toHaveLength(2);
+  });
+
+  it('签名无效的请求不占用nonce', async () => {
+    const { document, sign } = await createIdentity();
+    const verifier = createVerifier(document);
+    const authorization = await sign('shared-nonce');
+    const forged = authorization.replace(/signature="[^"]*"/, 'signature="AAAA"');
+
+    expect(await verifier.verify(forged, SERVICE)).toMatchObject({ valid: false, error: 'invalid_signature' });
+    expect((await verifier.verify(authorization, SERVICE)).valid).toBe(true);
+  });
+
+  it('拒绝超出时间窗口的时间戳', async () => {
+    const { document, sign } = await createIdentity();
+    const authorization = (await sign()).replace(/timestamp="[^"]*"/, 'timestamp="2000-01-01T00:00:00.000Z"');
+
+    expect(await createVerifier(document).verify(authorization, SERVICE)).toMatchObject({ valid: false, error: 'invalid_timestamp' });
+  });
+
+  it('DID已停用时返回did_deactivated', async () => {
+    const { did, sign } = await createIdentity();
+    const verifier = new DIDWbaVerifier({ resolveDID: async () => { throw new DIDDeactivatedError(did); } });
+
+    expect(await verifier.verify(await sign(), SERVICE)).toMatchObject({ valid: false, error: 'did_deactivated' });
+  });
+});
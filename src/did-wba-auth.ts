@@ -0,0 +1,287 @@
+/**
+ * ANP DIDWba认证模块
+ * 提供DIDWba Authorization头的构建、解析与验证
+ */
+
+import { ANPKeyGenerator, DIDDocument, KeyType, SignatureData, VerificationMethod } from './anp-key-generator';
+import { DIDDeactivatedError } from './did-resolver';
+import { ImportedPublicKey, importPublicKey } from './key-format';
+
+// Authorization头使用的认证方案名称
+export const DIDWBA_SCHEME = 'DIDWba';
+
+// DIDWba认证头接口
+export interface DIDWbaAuthHeader {
+  did: string;
+  nonce: string;
+  timestamp: string;
+  /** 验证方法ID（DID URL中#后面的片段） */
+  verificationMethod?: string;
+  signature: string;
+}
+
+/**
+ * 构建DIDWba Authorization头
+ */
+export function buildDIDWbaHeader(header: DIDWbaAuthHeader): string {
+  const fields: [string, string | undefined][] = [
+    ['did', header.did],
+    ['nonce', header.nonce],
+    ['timestamp', header.timestamp],
+    ['verification_method', header.verificationMethod],
+    ['signature', header.signature]
+  ];
+
+  const params = fields
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${value}"`)
+    .join(', ');
+
+  return `${DIDWBA_SCHEME} ${params}`;
+}
+
+/**
+ * 解析DIDWba Authorization头，格式不正确时返回null
+ */
+export function parseDIDWbaHeader(value: string | undefined): DIDWbaAuthHeader | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed.startsWith(`${DIDWBA_SCHEME} `)) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  const body = trimmed.slice(DIDWBA_SCHEME.length);
+  const pattern = /([a-z_]+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    params[match[1]] = match[2];
+  }
+
+  if (!params.did || !params.nonce || !params.timestamp || !params.signature) {
+    return null;
+  }
+
+  return {
+    did: params.did,
+    nonce: params.nonce,
+    timestamp: params.timestamp,
+    verificationMethod: params.verification_method,
+    signature: params.signature
+  };
+}
+
+// 验证失败原因
+export type DIDWbaErrorCode =
+  | 'missing_authorization'
+  | 'invalid_authorization'
+  | 'invalid_timestamp'
+  | 'replayed_nonce'
+  | 'did_resolution_failed'
+  | 'did_deactivated'
+  | 'verification_method_not_found'
+  | 'verification_method_expired'
+  | 'unsupported_key_type'
+  | 'invalid_signature';
+
+// 验证结果接口
+export interface DIDWbaVerificationResult {
+  valid: boolean;
+  did?: string;
+  /** 通过验证的验证方法完整ID */
+  verificationMethod?: string;
+  /** 请求使用的nonce，可作为附带证明的挑战值 */
+  nonce?: string;
+  error?: DIDWbaErrorCode;
+  message?: string;
+}
+
+// 验证器配置接口
+export interface DIDWbaVerifierOptions {
+  /** DID文档解析函数，noCache为true时应跳过缓存 */
+  resolveDID: (did: string, noCache?: boolean) => Promise<DIDDocument>;
+  /** 允许的时间戳偏差（毫秒） */
+  timestampWindow?: number;
+}
+
+// 验证进行中的nonce占位
+const NONCE_PENDING = 'pending';
+
+/**
+ * DIDWba认证头验证器
+ */
+export class DIDWbaVerifier {
+  private readonly resolveDID: (did: string, noCache?: boolean) => Promise<DIDDocument>;
+  private readonly timestampWindow: number;
+  private readonly generator = new ANPKeyGenerator('');
+  // nonce -> 过期时间；验证进行中的nonce标记为pending
+  private usedNonces: Map<string, number | typeof NONCE_PENDING> = new Map();
+
+  constructor(options: DIDWbaVerifierOptions) {
+    this.resolveDID = options.resolveDID;
+    this.timestampWindow = options.timestampWindow ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * 验证Authorization头
+   * @param service 本服务的域名（请求的Host），需与签名数据一致
+   */
+  public async verify(authorization: string | undefined, service: string): Promise<DIDWbaVerificationResult> {
+    if (!authorization) {
+      return this.fail('missing_authorization', '缺少Authorization头');
+    }
+
+    const header = parseDIDWbaHeader(authorization);
+    if (!header) {
+      return this.fail('invalid_authorization', 'Authorization头不是有效的DIDWba格式');
+    }
+
+    // 检查时间戳窗口
+    const timestamp = Date.parse(header.timestamp);
+    const now = Date.now();
+    if (isNaN(timestamp) || Math.abs(now - timestamp) > this.timestampWindow) {
+      return this.fail('invalid_timestamp', `时间戳超出允许范围: ${header.timestamp}`);
+    }
+
+    // 检查nonce重放：在第一次await之前同步占用nonce，并发的重复请求只有一个能通过
+    this.pruneNonces(now);
+    const nonceKey = `${header.did} ${header.nonce}`;
+    if (this.usedNonces.has(nonceKey)) {
+      return this.fail('replayed_nonce', `nonce已被使用: ${header.nonce}`);
+    }
+    this.usedNonces.set(nonceKey, NONCE_PENDING);
+
+    let result: DIDWbaVerificationResult;
+    try {
+      result = await this.verifySignature(header, service, now);
+    } catch (error) {
+      this.usedNonces.delete(nonceKey);
+      throw error;
+    }
+
+    // 验证未通过时释放nonce，避免伪造请求占用nonce
+    if (result.valid) {
+      this.usedNonces.set(nonceKey, timestamp + this.timestampWindow);
+    } else {
+      this.usedNonces.delete(nonceKey);
+    }
+    return result;
+  }
+
+  /**
+   * 解析调用方DID文档并验证签名
+   */
+  private async verifySignature(header: DIDWbaAuthHeader, service: string, now: number): Promise<DIDWbaVerificationResult> {
+    // 解析调用方DID文档
+    let didDocument: DIDDocument;
+    try {
+      didDocument = await this.resolveDID(header.did);
+    } catch (error) {
+      return this.resolutionFailed(header.did, error);
+    }
+
+    let method = this.findAuthenticationMethod(didDocument, header.verificationMethod);
+    if (!method && header.verificationMethod) {
+      // 缓存的文档可能早于对方的密钥轮换，重新获取一次
+      try {
+        didDocument = await this.resolveDID(header.did, true);
+        method = this.findAuthenticationMethod(didDocument, header.verificationMethod);
+      } catch (error) {
+        return this.resolutionFailed(header.did, error);
+      }
+    }
+    if (!method) {
+      return this.fail('verification_method_not_found', `DID文档中未找到身份验证方法: ${header.verificationMethod || '(默认)'}`);
+    }
+
+    // 轮换宽限期结束的旧密钥不再接受
+    if (method.expires && Date.parse(method.expires) <= now) {
+      return this.fail('verification_method_expired', `验证方法已于 ${method.expires} 过期: ${method.id}`);
+    }
+
+    const signatureData: SignatureData = {
+      nonce: header.nonce,
+      timestamp: header.timestamp,
+      service,
+      did: header.did
+    };
+
+    let publicKey: ImportedPublicKey;
+    try {
+      publicKey = importPublicKey(method);
+    } catch (error) {
+      return this.fail('unsupported_key_type', `无法读取验证方法公钥: ${error instanceof Error ? error.message : error}`);
+    }
+
+    let valid: boolean;
+    if (publicKey.keyType === KeyType.ED25519) {
+      valid = await this.generator.verifyEd25519(publicKey.publicKey, header.signature, signatureData);
+    } else if (publicKey.keyType === KeyType.SECP256K1) {
+      valid = await this.generator.verifySecp256k1(publicKey.publicKey, header.signature, signatureData);
+    } else {
+      return this.fail('unsupported_key_type', `不支持的验证方法类型: ${method.type}`);
+    }
+
+    if (!valid) {
+      return this.fail('invalid_signature', '签名验证失败');
+    }
+
+    return { valid: true, did: header.did, verificationMethod: method.id, nonce: header.nonce };
+  }
+
+  /**
+   * 查找authentication中引用的验证方法，未指定时使用第一个未过期的方法
+   */
+  private findAuthenticationMethod(didDocument: DIDDocument, fragment?: string): VerificationMethod | null {
+    const methods = didDocument.verificationMethod || [];
+    const references = didDocument.authentication || [];
+
+    for (const reference of references) {
+      const method = typeof reference === 'string'
+        ? methods.find(m => m.id === reference)
+        : reference;
+
+      if (!method) {
+        continue;
+      }
+
+      if (fragment) {
+        if (method.id === fragment || method.id.endsWith(`#${fragment}`)) {
+          return method;
+        }
+      } else if (!method.expires || Date.parse(method.expires) > Date.now()) {
+        return method;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 清理过期的nonce记录
+   */
+  private pruneNonces(now: number): void {
+    for (const [key, expiresAt] of this.usedNonces) {
+      if (expiresAt !== NONCE_PENDING && expiresAt < now) {
+        this.usedNonces.delete(key);
+      }
+    }
+  }
+
+  private fail(error: DIDWbaErrorCode, message: string): DIDWbaVerificationResult {
+    return { valid: false, error, message };
+  }
+
+  /**
+   * DID解析失败，已停用的DID单独给出原因
+   */
+  private resolutionFailed(did: string, error: unknown): DIDWbaVerificationResult {
+    if (error instanceof DIDDeactivatedError) {
+      return this.fail('did_deactivated', `DID已停用，拒绝请求: ${did}`);
+    }
+    return this.fail('did_resolution_failed', `无法解析DID ${did}: ${error}`);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator, DIDDocument } from './anp-key-generator';
+import { decryptMessage, encryptMessage, findKeyAgreementMethod, isEncryptedEnvelope } from './e2ee';
+import { findBundleKey, importPrivateKey } from './key-format';
+
+async function createRecipient() {
+  const identity = await new ANPKeyGenerator('example.com', 'bob').generateKeyPair();
+  const document: DIDDocument = JSON.parse(identity.did_document);
+  const method = findKeyAgreementMethod(document)!;
+  const { privateKey } = importPrivateKey(findBundleKey(identity.keys, 'keyAgreement')!.entry.privateKey);
+  return { method, privateKey };
+}
+
+describe('端到端加密', () => {
+  it('加密后由接收方解密', async () => {
+    const { method, privateKey } = await createRecipient();
+    const message = { content: '你好', nested: { n: 1 } };
+
+    const envelope = encryptMessage(message, method, 'did:wba:example.com:alice');
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(JSON.stringify(envelope)).not.toContain('你好');
+    expect(decryptMessage(envelope, privateKey, method.id)).toEqual(message);
+  });
+
+  it('其他密钥无法解密', async () => {
+    const recipient = await createRecipient();
+    const other = await createRecipient();
+
+    const envelope = encryptMessage({ content: 'secret' }, recipient.method, 'did:wba:example.com:alice');
+    expect(() => decryptMessage(envelope, other.privateKey)).toThrow();
+  });
+
+  it('篡改信封头（发送方）后解密失败', async () => {
+    const { method, privateKey } = await createRecipient();
+    const envelope = encryptMessage({ content: 'secret' }, method, 'did:wba:example.com:alice');
+
+    expect(() => decryptMessage({ ...envelope, sender: 'did:wba:evil.com' }, privateKey)).toThrow();
+  });
+
+  it('校验接收方验证方法ID', async () => {
+    const { method, privateKey } = await createRecipient();
+    const envelope = encryptMessage({ content: 'secret' }, method, 'did:wba:example.com:alice');
+
+    expect(() => decryptMessage(envelope, privateKey, 'did:wba:example.com:bob#other')).toThrow();
+  });
+});
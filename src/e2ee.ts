@@ -0,0 +1,171 @@
+/**
+ * ANP端到端加密模块
+ * 基于X25519密钥协商、HKDF-SHA256和AES-256-GCM的消息信封
+ */
+
+import * as crypto from 'crypto';
+import { Buffer } from 'buffer';
+import * as ed25519 from '@noble/ed25519';
+import { DIDDocument, KeyType, VerificationMethod } from './anp-key-generator';
+import { canonicalize } from './jcs';
+import { importPublicKey } from './key-format';
+
+// 信封类型标识
+export const ENCRYPTED_MESSAGE_TYPE = 'ANPEncryptedMessage';
+export const ENCRYPTED_MESSAGE_ALG = 'ECDH-ES+X25519/HKDF-SHA256/A256GCM';
+
+const HKDF_INFO = Buffer.from('ANP-E2EE-v1', 'utf8');
+
+// 加密消息信封接口
+export interface EncryptedEnvelope {
+  type: typeof ENCRYPTED_MESSAGE_TYPE;
+  alg: typeof ENCRYPTED_MESSAGE_ALG;
+  /** 发送方DID */
+  sender: string;
+  /** 接收方keyAgreement验证方法ID */
+  recipient: string;
+  /** 发送方临时X25519公钥（base64url） */
+  epk: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * 判断消息体是否为加密信封
+ */
+export function isEncryptedEnvelope(body: any): body is EncryptedEnvelope {
+  return !!body && typeof body === 'object' && body.type === ENCRYPTED_MESSAGE_TYPE;
+}
+
+/**
+ * 查找DID文档中的X25519密钥协商方法
+ */
+export function findKeyAgreementMethod(didDocument: DIDDocument): VerificationMethod | null {
+  const methods = didDocument.verificationMethod || [];
+
+  for (const reference of didDocument.keyAgreement || []) {
+    const method = typeof reference === 'string'
+      ? methods.find(m => m.id === reference)
+      : reference;
+
+    if (method && isX25519Method(method)) {
+      return method;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 计算X25519共享密钥
+ */
+export function deriveSharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+  const shared = ed25519.curve25519.scalarMult(privateKey, publicKey);
+  // 拒绝低阶点产生的全零共享密钥
+  if (shared.every(byte => byte === 0)) {
+    throw new Error('X25519密钥协商失败：无效的公钥');
+  }
+  return shared;
+}
+
+/**
+ * 加密消息到接收方的keyAgreement密钥
+ */
+export function encryptMessage(message: any, recipient: VerificationMethod, sender: string): EncryptedEnvelope {
+  const recipientPublicKey = decodeX25519PublicKey(recipient);
+
+  const ephemeralPrivateKey = new Uint8Array(crypto.randomBytes(32));
+  const ephemeralPublicKey = ed25519.curve25519.scalarMultBase(ephemeralPrivateKey);
+  const key = deriveContentKey(deriveSharedSecret(ephemeralPrivateKey, recipientPublicKey), ephemeralPublicKey, recipientPublicKey);
+
+  const header = {
+    type: ENCRYPTED_MESSAGE_TYPE,
+    alg: ENCRYPTED_MESSAGE_ALG,
+    sender,
+    recipient: recipient.id,
+    epk: Buffer.from(ephemeralPublicKey).toString('base64url')
+  } as const;
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(canonicalize(header), 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(canonicalize(message), 'utf8'), cipher.final()]);
+
+  return {
+    ...header,
+    iv: iv.toString('base64url'),
+    ciphertext: ciphertext.toString('base64url'),
+    tag: cipher.getAuthTag().toString('base64url')
+  };
+}
+
+/**
+ * 使用keyAgreement私钥解密消息
+ * @param recipientId 期望的接收方验证方法ID，提供时会校验信封中的recipient
+ */
+export function decryptMessage(envelope: EncryptedEnvelope, privateKey: Uint8Array, recipientId?: string): any {
+  if (envelope.alg !== ENCRYPTED_MESSAGE_ALG) {
+    throw new Error(`不支持的加密算法: ${envelope.alg}`);
+  }
+  if (recipientId && envelope.recipient !== recipientId) {
+    throw new Error(`消息接收方不匹配: ${envelope.recipient}`);
+  }
+
+  const recipientPublicKey = ed25519.curve25519.scalarMultBase(privateKey);
+  const ephemeralPublicKey = new Uint8Array(Buffer.from(envelope.epk, 'base64url'));
+  const key = deriveContentKey(deriveSharedSecret(privateKey, ephemeralPublicKey), ephemeralPublicKey, recipientPublicKey);
+
+  const header = {
+    type: envelope.type,
+    alg: envelope.alg,
+    sender: envelope.sender,
+    recipient: envelope.recipient,
+    epk: envelope.epk
+  };
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64url'));
+  decipher.setAAD(Buffer.from(canonicalize(header), 'utf8'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64url'));
+
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, 'base64url')),
+      decipher.final()
+    ]).toString('utf8');
+  } catch (error) {
+    throw new Error('消息解密失败：密钥错误或消息被篡改');
+  }
+
+  return JSON.parse(plaintext);
+}
+
+/**
+ * 通过HKDF派生内容加密密钥，salt绑定临时公钥和接收方公钥
+ */
+function deriveContentKey(sharedSecret: Uint8Array, ephemeralPublicKey: Uint8Array, recipientPublicKey: Uint8Array): Buffer {
+  const salt = Buffer.concat([Buffer.from(ephemeralPublicKey), Buffer.from(recipientPublicKey)]);
+  return Buffer.from(crypto.hkdfSync('sha256', sharedSecret, salt, HKDF_INFO, 32));
+}
+
+/**
+ * 判断验证方法是否为X25519密钥（Multibase或JWK编码）
+ */
+function isX25519Method(method: VerificationMethod): boolean {
+  try {
+    return importPublicKey(method).keyType === KeyType.X25519;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 读取验证方法中的X25519公钥
+ */
+function decodeX25519PublicKey(method: VerificationMethod): Uint8Array {
+  if (!isX25519Method(method)) {
+    throw new Error(`验证方法 ${method.id} 不是X25519密钥协商方法`);
+  }
+  return importPublicKey(method).publicKey;
+}
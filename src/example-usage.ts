@@ -130,6 +130,7 @@ async function example3_FullANPAgentConfig() {
           description: 'Main ANP communication endpoint'
         }
       ],
+      protocol: httpSetup.protocol,
       logLevel: 'info'
     });
 
@@ -141,7 +142,8 @@ async function example3_FullANPAgentConfig() {
       method: 'GET',
       path: '/.well-known/did.json',
       handler: (req: express.Request, res: express.Response) => {
-        res.json(didConfig.getDIDDocument());
+        const { status, body } = didConfig.getDIDDocumentResponse();
+        res.status(status).json(body);
       }
     });
 
@@ -247,6 +249,7 @@ async function example4_CustomConfig() {
           description: 'Custom service endpoint'
         }
       ],
+      protocol: httpSetup.protocol,
       logLevel: 'debug'
     });
 
@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import * as http from 'http';
+import * as net from 'net';
+import { HTTPAutoConfig, HTTPAutoConfigOptions, RouteConfig } from './http-auto-config';
+
+describe('HTTPAutoConfig', () => {
+  const configs: HTTPAutoConfig[] = [];
+  const blockers: net.Server[] = [];
+
+  const createConfig = (options: HTTPAutoConfigOptions = {}) => {
+    const config = new HTTPAutoConfig({ logLevel: 'error', ...options });
+    configs.push(config);
+    return config;
+  };
+
+  // 占用端口，模拟其他进程
+  const occupy = async (port: number) => {
+    const server = net.createServer();
+    blockers.push(server);
+    await new Promise<void>(resolve => server.listen(port, '0.0.0.0', resolve));
+    return server;
+  };
+
+  afterEach(async () => {
+    await Promise.all(configs.splice(0).map(config => config.stop()));
+    await Promise.all(blockers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  // 每个用例使用不同的端口，避免fetch复用上一个用例已关闭服务器的连接
+  const get = async (port: number, path: string) => {
+    const response = await fetch(`http://127.0.0.1:${port}${path}`);
+    return { status: response.status, body: await response.text() };
+  };
+
+  describe('路由', () => {
+    const text = (body: string): RouteConfig['handler'] => (req, res) => {
+      res.send(body);
+    };
+
+    it('按添加顺序列出路由，内置路由在前', () => {
+      const config = createConfig({ routes: [{ method: 'POST', path: '/a', handler: text('a') }] });
+      config.addRoute({ method: 'GET', path: '/b', handler: text('b') });
+      config.addRoute({ method: 'PUT', path: '/a', handler: text('a') });
+
+      expect(config.getRoutes()).toEqual([
+        { method: 'GET', path: '/health' },
+        { method: 'GET', path: '/config' },
+        { method: 'POST', path: '/a' },
+        { method: 'GET', path: '/b' },
+        { method: 'PUT', path: '/a' }
+      ]);
+    });
+
+    it('重复添加同方法同路径的路由时替换处理函数并保留位置', async () => {
+      const config = createConfig({ portRange: [4560, 4569] });
+      config.addRoute({ method: 'GET', path: '/a', handler: text('first') });
+      config.addRoute({ method: 'GET', path: '/b', handler: text('b') });
+      config.addRoute({ method: 'GET', path: '/a', handler: text('second') });
+      const { port } = await config.autoSetup();
+
+      expect(config.getRoutes().slice(2)).toEqual([{ method: 'GET', path: '/a' }, { method: 'GET', path: '/b' }]);
+      expect(await get(port, '/a')).toEqual({ status: 200, body: 'second' });
+    });
+
+    it('运行中添加和移除路由立即生效', async () => {
+      const config = createConfig({ portRange: [4570, 4579] });
+      const { port } = await config.autoSetup();
+
+      config.addRoute({ method: 'GET', path: '/dynamic', handler: text('dynamic') });
+      expect(await get(port, '/dynamic')).toEqual({ status: 200, body: 'dynamic' });
+
+      expect(config.removeRoute('GET', '/dynamic')).toBe(true);
+      expect(config.removeRoute('GET', '/dynamic')).toBe(false);
+      expect((await get(port, '/dynamic')).status).toBe(404);
+    });
+
+    it('可以替换和移除内置路由', async () => {
+      const config = createConfig({ portRange: [4580, 4589] });
+      const { port } = await config.autoSetup();
+
+      config.addRoute({ method: 'GET', path: '/health', handler: text('custom') });
+      expect(await get(port, '/health')).toEqual({ status: 200, body: 'custom' });
+
+      config.removeRoute('GET', '/health');
+      expect((await get(port, '/health')).status).toBe(404);
+    });
+  });
+
+  describe('优雅停止', () => {
+    // 使用http模块发送请求，便于控制连接是否复用
+    const request = (port: number, path: string, agent: http.Agent | false = false) =>
+      new Promise<{ status: number; headers: http.IncomingHttpHeaders; body: string; socket: net.Socket }>((resolve, reject) => {
+        const req = http.get({ host: '127.0.0.1', port, path, agent }, res => {
+          let body = '';
+          res.setEncoding('utf8');
+          res.on('data', chunk => body += chunk);
+          res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body, socket: req.socket! }));
+          res.on('error', reject);
+        });
+        req.on('error', reject);
+      });
+
+    // 挂起直到release被调用的路由，arrived在请求进入处理函数时兑现
+    const createSlowRoute = () => {
+      let release!: () => void;
+      let arrived!: () => void;
+      const gate = new Promise<void>(resolve => release = resolve);
+      const reached = new Promise<void>(resolve => arrived = resolve);
+      const route: RouteConfig = {
+        method: 'GET',
+        path: '/slow',
+        handler: async (req, res) => {
+          arrived();
+          await gate;
+          res.send('done');
+        }
+      };
+      return { route, release, reached };
+    };
+
+    it('等待进行中的请求完成后停止，响应带Connection: close', async () => {
+      const slow = createSlowRoute();
+      const config = createConfig({ portRange: [4590, 4599], routes: [slow.route] });
+      const { port } = await config.autoSetup();
+
+      const pending = request(port, '/slow');
+      await slow.reached;
+      let stopped = false;
+      const stopping = config.stop().then(() => stopped = true);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(stopped).toBe(false);
+
+      slow.release();
+      expect(await pending).toMatchObject({ status: 200, body: 'done', headers: { connection: 'close' } });
+      await stopping;
+      expect(config.isServerRunning()).toBe(false);
+    });
+
+    it('立即关闭空闲的keep-alive连接', async () => {
+      const config = createConfig({ portRange: [4600, 4609], shutdownTimeout: 5000 });
+      const { port } = await config.autoSetup();
+      const agent = new http.Agent({ keepAlive: true });
+
+      try {
+        const { status, socket } = await request(port, '/health', agent);
+        expect(status).toBe(200);
+        const closed = new Promise(resolve => socket.once('close', resolve));
+
+        const startedAt = Date.now();
+        await config.stop();
+
+        await closed;
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+      } finally {
+        agent.destroy();
+      }
+    });
+
+    it('停止过程中拒绝新连接', async () => {
+      const slow = createSlowRoute();
+      const config = createConfig({ portRange: [4610, 4619], routes: [slow.route] });
+      const { port } = await config.autoSetup();
+
+      const pending = request(port, '/slow');
+      await slow.reached;
+      const stopping = config.stop();
+
+      await expect(request(port, '/health')).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+
+      slow.release();
+      await pending;
+      await stopping;
+    });
+
+    it('超过shutdownTimeout时强制关闭仍在处理的连接', async () => {
+      const slow = createSlowRoute();
+      const config = createConfig({ portRange: [4620, 4629], routes: [slow.route], shutdownTimeout: 200 });
+      const { port } = await config.autoSetup();
+
+      const pending = request(port, '/slow');
+      pending.catch(() => undefined);
+      await slow.reached;
+
+      const startedAt = Date.now();
+      await config.stop();
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+      await expect(pending).rejects.toThrow('socket hang up');
+      slow.release();
+    });
+  });
+
+  describe('端口分配', () => {
+    it('端口被占用时绑定下一个空闲端口，重新启动时沿用该端口', async () => {
+      const blocker = await occupy(4500);
+      const config = createConfig({ portRange: [4500, 4509] });
+
+      expect((await config.autoSetup()).port).toBe(4501);
+
+      await config.stop();
+      await new Promise(resolve => blocker.close(resolve));
+      expect((await config.autoSetup()).port).toBe(4501);
+    });
+
+    it('同时启动的两个实例绑定不同的端口', async () => {
+      const [first, second] = await Promise.all([
+        createConfig({ portRange: [4510, 4519] }).autoSetup(),
+        createConfig({ portRange: [4510, 4519] }).autoSetup()
+      ]);
+
+      expect(first.port).not.toBe(second.port);
+      expect([first.port, second.port].every(port => port >= 4510 && port <= 4519)).toBe(true);
+    });
+
+    it('未开启autoPort时端口被占用直接报错', async () => {
+      await occupy(4520);
+      await expect(createConfig({ autoPort: false, portRange: [4520, 4520] }).autoSetup()).rejects.toThrow('EADDRINUSE');
+    });
+  });
+});
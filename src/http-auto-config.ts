@@ -6,9 +6,11 @@
 import * as net from 'net';
 import * as os from 'os';
 import * as http from 'http';
+import * as https from 'https';
 import * as url from 'url';
 import express from 'express';
 import { Server } from 'http';
+import { generateSelfSignedCertificate, TLSCredentials } from './tls-certificate';
 
 // 类型定义
 export interface HTTPAutoConfigOptions {
@@ -18,6 +20,8 @@ export interface HTTPAutoConfigOptions {
   autoPort?: boolean;
   /** 端口范围 */
   portRange?: [number, number];
+  /** 优先使用的端口，被占用时再在端口范围内分配（未开启autoPort时作为固定端口） */
+  preferredPort?: number | null;
   /** 主机地址 */
   host?: string;
   /** 日志级别 */
@@ -26,6 +30,14 @@ export interface HTTPAutoConfigOptions {
   middlewares?: express.RequestHandler[];
   /** 自定义路由 */
   routes?: RouteConfig[];
+  /** TLS证书和私钥，提供后以HTTPS提供服务 */
+  tls?: TLSCredentials | null;
+  /** 未提供tls时自动生成自签名开发证书并以HTTPS提供服务 */
+  selfSignedCert?: boolean;
+  /** 停止时等待进行中请求完成的最长时间（毫秒），超时后强制关闭连接 */
+  shutdownTimeout?: number;
+  /** 收到SIGINT/SIGTERM时优雅停止并退出进程 */
+  handleSignals?: boolean;
 }
 
 export interface RouteConfig {
@@ -34,7 +46,14 @@ export interface RouteConfig {
   handler: express.RequestHandler;
 }
 
+// 路由表中的路由
+export interface MountedRoute {
+  method: RouteConfig['method'];
+  path: string;
+}
+
 export interface HTTPConfig {
+  protocol: 'http' | 'https';
   port: number;
   host: string;
   localIP: string;
@@ -53,18 +72,62 @@ export class HTTPAutoConfig {
   private server: Server | null = null;
   private app: express.Application | null = null;
   private isRunning: boolean = false;
+  private routes: Map<string, RouteConfig> = new Map();
+  private router: express.Router = express.Router();
+  private tlsCredentials: TLSCredentials | null = null;
+  // 连接及其进行中的请求数
+  private connections: Map<net.Socket, number> = new Map();
+  private pendingResponses: Set<http.ServerResponse> = new Set();
+  private shuttingDown: Promise<void> | null = null;
+  private onDrained: (() => void) | null = null;
+  private removeSignalHandlers: (() => void) | null = null;
 
   constructor(options: HTTPAutoConfigOptions = {}) {
     this.options = {
       autoStart: true,
       autoPort: true,
       portRange: [3000, 4000],
+      preferredPort: null,
       host: '0.0.0.0',
       logLevel: 'info',
       middlewares: [],
       routes: [],
+      tls: null,
+      selfSignedCert: false,
+      shutdownTimeout: 10000,
+      handleSignals: false,
       ...options
     };
+
+    // 内置路由在前，同方法同路径的自定义路由会将其替换
+    const builtinRoutes: RouteConfig[] = [
+      // 健康检查端点
+      {
+        method: 'GET',
+        path: '/health',
+        handler: (req, res) => {
+          res.json({
+            status: 'healthy',
+            port: this.autoPort,
+            host: this.options.host,
+            localIP: this.localIP,
+            endpoint: this.getEndpoint(),
+            timestamp: new Date().toISOString()
+          });
+        }
+      },
+      // 配置信息端点（不含服务器和应用实例）
+      {
+        method: 'GET',
+        path: '/config',
+        handler: (req, res) => {
+          const { server, app, ...config } = this.getConfig();
+          res.json(config);
+        }
+      }
+    ];
+    [...builtinRoutes, ...this.options.routes].forEach(route => this.routes.set(routeKey(route.method, route.path), route));
+    this.rebuildRouter();
   }
 
   /**
@@ -74,24 +137,10 @@ export class HTTPAutoConfig {
     this.log('info', '🔄 HTTP自动配置: 开始配置...');
     
     try {
-      // 步骤1: 自动分配端口
-      if (this.options.autoPort) {
-        this.autoPort = await this.findAvailablePort();
-        this.log('info', `✅ 自动分配端口: ${this.autoPort}`);
-      } else {
-        this.autoPort = this.options.portRange[0];
-        this.log('info', `✅ 使用指定端口: ${this.autoPort}`);
-      }
+      // 步骤1-3: 获取本地IP，绑定端口启动HTTP服务器
+      await this.allocateAddress();
       
-      // 步骤2: 获取本地IP
-      this.localIP = await this.getLocalIP();
-      this.log('info', `✅ 本地IP: ${this.localIP}`);
-      
-      // 步骤3: 启动HTTP服务器
       if (this.options.autoStart) {
-        await this.startHTTPServer();
-        this.log('info', `✅ HTTP服务器启动在端口: ${this.autoPort}`);
-        
         // 步骤4: 配置中间件
         this.setupMiddlewares();
         this.log('info', `✅ 中间件配置完成`);
@@ -101,6 +150,10 @@ export class HTTPAutoConfig {
         this.log('info', `✅ 路由配置完成`);
       }
       
+      if (this.options.handleSignals && this.server) {
+        this.removeSignalHandlers = handleShutdownSignals(() => this.stop());
+      }
+      
       this.isRunning = true;
       this.log('info', '🎉 HTTP自动配置完成！');
       return this.getConfig();
@@ -112,13 +165,63 @@ export class HTTPAutoConfig {
   }
 
   /**
-   * 自动分配可用端口
+   * 获取本地IP并分配端口（已分配时直接返回）
+   * 自动启动时直接绑定端口启动服务器，不存在探测与绑定之间的竞争；
+   * 中间件和路由在autoSetup中挂载，此前的请求返回503，可在此期间用地址生成DID
+   * @param preferredPort 优先使用的端口，默认为选项preferredPort
    */
-  private async findAvailablePort(): Promise<number> {
+  public async allocateAddress(preferredPort: number | null = this.options.preferredPort): Promise<{ port: number; localIP: string }> {
+    if (this.localIP === null) {
+      this.localIP = await this.getLocalIP();
+      this.log('info', `✅ 本地IP: ${this.localIP}`);
+    }
+
+    if (this.options.autoStart) {
+      if (!this.server?.listening) {
+        await this.startHTTPServer(preferredPort);
+        this.log('info', `✅ HTTP服务器启动在端口: ${this.autoPort}`);
+      }
+    } else if (this.autoPort === null) {
+      if (this.options.autoPort) {
+        this.autoPort = await this.findAvailablePort(preferredPort);
+        this.log('info', `✅ 自动分配端口: ${this.autoPort}`);
+      } else {
+        this.autoPort = preferredPort ?? this.options.portRange[0];
+        this.log('info', `✅ 使用指定端口: ${this.autoPort}`);
+      }
+    }
+
+    return { port: this.autoPort!, localIP: this.localIP };
+  }
+
+  /**
+   * 候选端口：已使用过的端口（重新启动时）、优先端口，然后是端口范围
+   * 未开启autoPort时只有一个固定端口
+   */
+  private getCandidatePorts(preferredPort: number | null): number[] {
     const [startPort, endPort] = this.options.portRange;
-    
-    // 首先尝试指定范围内的端口
+    if (!this.options.autoPort) {
+      return [this.autoPort ?? preferredPort ?? startPort];
+    }
+
+    const ports = new Set<number>();
+    for (const port of [this.autoPort, preferredPort]) {
+      if (port !== null) {
+        ports.add(port);
+      }
+    }
     for (let port = startPort; port <= endPort; port++) {
+      ports.add(port);
+    }
+    return [...ports];
+  }
+
+  /**
+   * 探测可用端口，仅用于不启动服务器时分配地址（探测后端口未被占用，不保证之后仍可用）
+   */
+  private async findAvailablePort(preferredPort: number | null): Promise<number> {
+    // 首先尝试候选端口
+    for (const port of this.getCandidatePorts(preferredPort)) {
       if (await this.isPortAvailable(port)) {
         return port;
       }
@@ -183,20 +286,113 @@ export class HTTPAutoConfig {
   /**
    * 启动HTTP服务器
    */
-  private async startHTTPServer(): Promise<void> {
+  private async startHTTPServer(preferredPort: number | null): Promise<void> {
     this.app = express();
+    const credentials = this.getTLSCredentials();
+    const server = credentials ? https.createServer(credentials, this.app) : http.createServer(this.app);
+    this.server = server;
+    this.shuttingDown = null;
+    this.trackConnections(server, credentials ? 'secureConnection' : 'connection');
+
+    // 配置完成前和停止过程中到达的请求不再处理
+    this.app.use((req, res, next) => {
+      if (this.shuttingDown) {
+        res.status(503).json({ error: 'Service Unavailable', message: '服务器正在停止' });
+      } else if (!this.isRunning) {
+        res.status(503).json({ error: 'Service Unavailable', message: '服务器尚未就绪' });
+      } else {
+        next();
+      }
+    });
     
-    return new Promise((resolve, reject) => {
-      this.server = this.app!.listen(this.autoPort!, this.options.host, (err?: Error) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
+    this.autoPort = await this.listen(server, preferredPort);
+  }
+
+  /**
+   * 依次在候选端口上直接绑定，端口被占用时尝试下一个；
+   * 均不可用时由系统分配（未开启autoPort时绑定失败直接抛出）
+   */
+  private async listen(server: Server, preferredPort: number | null): Promise<number> {
+    for (const port of this.getCandidatePorts(preferredPort)) {
+      try {
+        await listenOnce(server, port, this.options.host);
+        return port;
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (!this.options.autoPort || (code !== 'EADDRINUSE' && code !== 'EACCES')) {
+          throw error;
+        }
+        this.log('debug', `端口 ${port} 不可用: ${code}`);
+      }
+    }
+
+    await listenOnce(server, 0, this.options.host);
+    return (server.address() as net.AddressInfo).port;
+  }
+
+  /**
+   * 记录连接和进行中的请求，用于停止时排空
+   * HTTPS需在TLS握手完成后记录，与请求使用同一个套接字对象
+   */
+  private trackConnections(server: Server, connectionEvent: 'connection' | 'secureConnection'): void {
+    server.on(connectionEvent, (socket: net.Socket) => {
+      this.connections.set(socket, 0);
+      socket.once('close', () => this.connections.delete(socket));
+    });
+
+    server.prependListener('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+      const socket = req.socket;
+      this.connections.set(socket, (this.connections.get(socket) || 0) + 1);
+      this.pendingResponses.add(res);
+      if (this.shuttingDown) {
+        res.setHeader('Connection', 'close');
+      }
+
+      res.once('close', () => {
+        this.pendingResponses.delete(res);
+        if (this.connections.has(socket)) {
+          this.connections.set(socket, this.connections.get(socket)! - 1);
+        }
+        if (this.onDrained && this.countInFlightRequests() === 0) {
+          this.onDrained();
         }
       });
     });
   }
 
+  /**
+   * 进行中的请求数
+   */
+  private countInFlightRequests(): number {
+    let count = 0;
+    for (const requests of this.connections.values()) {
+      count += requests;
+    }
+    return count;
+  }
+
+  /**
+   * TLS证书：优先使用提供的证书，否则按需生成自签名证书（本地IP和localhost）
+   */
+  private getTLSCredentials(): TLSCredentials | null {
+    if (this.options.tls) {
+      return this.options.tls;
+    }
+    if (!this.options.selfSignedCert) {
+      return null;
+    }
+
+    if (!this.tlsCredentials) {
+      const localIP = this.localIP || '127.0.0.1';
+      this.tlsCredentials = generateSelfSignedCertificate({
+        commonName: localIP,
+        altNames: [...new Set([localIP, 'localhost', '127.0.0.1'])]
+      });
+      this.log('warn', '⚠️ 使用自签名TLS证书，仅适用于开发环境');
+    }
+    return this.tlsCredentials;
+  }
+
   /**
    * 配置中间件
    */
@@ -213,7 +409,7 @@ export class HTTPAutoConfig {
     this.app.use((req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-ANP-Human-Authorization');
       
       if (req.method === 'OPTIONS') {
         res.sendStatus(200);
@@ -242,30 +438,11 @@ export class HTTPAutoConfig {
       throw new Error('HTTP server not started');
     }
 
-    // 健康检查端点
-    this.app.get('/health', (req, res) => {
-      res.json({
-        status: 'healthy',
-        port: this.autoPort,
-        host: this.options.host,
-        localIP: this.localIP,
-        endpoint: this.getEndpoint(),
-        timestamp: new Date().toISOString()
-      });
-    });
-
-    // 配置信息端点
-    this.app.get('/config', (req, res) => {
-      res.json(this.getConfig());
-    });
-
-    // 自定义路由
-    this.options.routes.forEach(route => {
-      (this.app as any)[route.method.toLowerCase()](route.path, route.handler);
-    });
+    // 路由表：运行时增删的路由始终位于兜底处理之前
+    this.app.use((req, res, next) => this.router(req, res, next));
 
-    // 404处理
-    this.app.use('*', (req, res) => {
+    // 404处理（Express 5不再支持'*'路径）
+    this.app.use((req, res) => {
       res.status(404).json({
         error: 'Not Found',
         path: req.originalUrl,
@@ -294,6 +471,7 @@ export class HTTPAutoConfig {
     }
 
     return {
+      protocol: this.getProtocol(),
       port: this.autoPort,
       host: this.options.host,
       localIP: this.localIP,
@@ -310,19 +488,68 @@ export class HTTPAutoConfig {
     if (!this.localIP || !this.autoPort) {
       throw new Error('HTTP server not configured yet. Call autoSetup() first.');
     }
-    return `http://${this.localIP}:${this.autoPort}`;
+    return `${this.getProtocol()}://${this.localIP}:${this.autoPort}`;
   }
 
   /**
-   * 添加路由
+   * 实际提供服务的协议
+   */
+  public getProtocol(): 'http' | 'https' {
+    return this.options.tls || this.options.selfSignedCert ? 'https' : 'http';
+  }
+
+  /**
+   * 获取服务使用的PEM证书（自签名证书在服务器启动后生成），未启用TLS时返回null
+   * 客户端可将其加入信任列表，例如通过NODE_EXTRA_CA_CERTS
+   */
+  public getCertificate(): string | null {
+    return this.options.tls?.cert || this.tlsCredentials?.cert || null;
+  }
+
+  /**
+   * 添加路由，同方法同路径的路由会被替换（服务器启动前后均可调用）
    */
   public addRoute(route: RouteConfig): void {
-    if (!this.app) {
-      throw new Error('HTTP server not started');
+    const key = routeKey(route.method, route.path);
+    const replaced = this.routes.has(key);
+
+    this.routes.set(key, route);
+    this.rebuildRouter();
+    this.log('info', `✅ ${replaced ? '替换' : '添加'}路由: ${key}`);
+  }
+
+  /**
+   * 移除路由
+   * @returns 路由不存在时返回false
+   */
+  public removeRoute(method: RouteConfig['method'], path: string): boolean {
+    const key = routeKey(method, path);
+    if (!this.routes.delete(key)) {
+      return false;
     }
-    
-    (this.app as any)[route.method.toLowerCase()](route.path, route.handler);
-    this.log('info', `✅ 添加路由: ${route.method} ${route.path}`);
+
+    this.rebuildRouter();
+    this.log('info', `🗑️ 移除路由: ${key}`);
+    return true;
+  }
+
+  /**
+   * 列出已挂载的路由（按添加顺序）
+   */
+  public getRoutes(): MountedRoute[] {
+    return [...this.routes.values()].map(({ method, path }) => ({ method, path }));
+  }
+
+  /**
+   * 按路由表重建路由器，进行中的请求继续使用旧路由器
+   */
+  private rebuildRouter(): void {
+    const router = express.Router();
+    for (const route of this.routes.values()) {
+      const method = route.method.toLowerCase() as Lowercase<RouteConfig['method']>;
+      router.route(route.path)[method](route.handler);
+    }
+    this.router = router;
   }
 
   /**
@@ -338,18 +565,74 @@ export class HTTPAutoConfig {
   }
 
   /**
-   * 停止服务
+   * 优雅停止：不再接受新连接和请求，等待进行中的请求完成（最长shutdownTimeout），
+   * 随后关闭所有连接；重复调用返回同一个Promise
    */
   public async stop(): Promise<void> {
-    if (this.server) {
-      return new Promise((resolve) => {
-        this.server!.close(() => {
-          this.log('info', '🛑 HTTP服务器已停止');
-          this.isRunning = false;
-          resolve();
-        });
-      });
+    if (!this.server) {
+      return;
+    }
+    if (!this.shuttingDown) {
+      this.shuttingDown = this.shutdown(this.server);
     }
+    return this.shuttingDown;
+  }
+
+  /**
+   * 执行停止流程
+   */
+  private async shutdown(server: Server): Promise<void> {
+    this.removeSignalHandlers?.();
+    this.removeSignalHandlers = null;
+    this.log('info', '🔄 正在停止HTTP服务器...');
+
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+
+    // 空闲的keep-alive连接立即关闭，处理中的连接在响应后由Connection: close关闭
+    for (const [socket, requests] of this.connections) {
+      if (requests === 0) {
+        socket.destroy();
+      }
+    }
+    for (const res of this.pendingResponses) {
+      if (!res.headersSent) {
+        res.setHeader('Connection', 'close');
+      }
+    }
+
+    if (!await this.waitForDrain()) {
+      this.log('warn', `⚠️ 等待进行中的请求超时（${this.options.shutdownTimeout}ms），强制关闭 ${this.connections.size} 个连接`);
+    }
+    for (const socket of this.connections.keys()) {
+      socket.destroy();
+    }
+
+    await closed;
+    this.isRunning = false;
+    this.log('info', '🛑 HTTP服务器已停止');
+  }
+
+  /**
+   * 等待进行中的请求完成
+   * @returns 超时返回false
+   */
+  private waitForDrain(): Promise<boolean> {
+    if (this.countInFlightRequests() === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.onDrained = null;
+        resolve(false);
+      }, this.options.shutdownTimeout);
+
+      this.onDrained = () => {
+        clearTimeout(timer);
+        this.onDrained = null;
+        resolve(true);
+      };
+    });
   }
 
   /**
@@ -393,5 +676,55 @@ export class HTTPAutoConfig {
   }
 }
 
+/**
+ * 收到SIGINT/SIGTERM时执行停止流程，完成后以该信号的默认行为结束进程
+ * 停止期间再次收到信号将直接终止进程
+ * @returns 取消监听的函数
+ */
+export function handleShutdownSignals(stop: () => Promise<void>): () => void {
+  const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+  const remove = () => signals.forEach(signal => process.off(signal, onSignal));
+  const onSignal = (signal: NodeJS.Signals) => {
+    remove();
+    stop()
+      .catch(() => undefined)
+      .then(() => {
+        // 应用自己监听了该信号时由其决定是否退出
+        if (process.listenerCount(signal) === 0) {
+          process.kill(process.pid, signal);
+        }
+      });
+  };
+
+  signals.forEach(signal => process.on(signal, onSignal));
+  return remove;
+}
+
+/**
+ * 在指定端口上监听一次，绑定失败时reject
+ */
+function listenOnce(server: Server, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error) => {
+      server.off('listening', onListening);
+      reject(error);
+    };
+    const onListening = () => {
+      server.off('error', onError);
+      resolve();
+    };
+    server.once('error', onError);
+    server.once('listening', onListening);
+    server.listen(port, host);
+  });
+}
+
+/**
+ * 路由表键
+ */
+function routeKey(method: RouteConfig['method'], path: string): string {
+  return `${method} ${path}`;
+}
+
 // 导出主要类和接口
 export { HTTPAutoConfig as default };
@@ -0,0 +1,104 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator, DIDDocument, KeyBundle } from './anp-key-generator';
+import {
+  createStaticApprover,
+  decodeHumanAuthorizationProof,
+  encodeHumanAuthorizationProof,
+  HumanAuthorizationVerifier,
+  HumanAuthorizer,
+  verifyHumanAuthorization
+} from './human-authorization';
+
+const AUDIENCE = 'agent.example.com';
+const PAYLOAD = { action: 'transfer', amount: 100 };
+
+async function createIdentity() {
+  const identity = await new ANPKeyGenerator('client.example.com', 'alice').generateKeyPair();
+  const document: DIDDocument = JSON.parse(identity.did_document);
+  return { did: identity.did, document, keys: identity.keys };
+}
+
+function createAuthorizer(did: string, keys: KeyBundle, approved: boolean = true) {
+  return new HumanAuthorizer({ did, keys, approver: createStaticApprover(approved, 'alice'), logLevel: 'error' });
+}
+
+describe('人类授权', () => {
+  it('DID文档的humanAuthorization只包含专用密钥', async () => {
+    const { document } = await createIdentity();
+
+    expect(document.humanAuthorization).toHaveLength(1);
+    expect(document.authentication).not.toContain((document.humanAuthorization![0] as any).id);
+  });
+
+  it('批准后签署的凭证可以验证，编码往返不变', async () => {
+    const { did, document, keys } = await createIdentity();
+    const proof = await createAuthorizer(did, keys).authorize('transfer', PAYLOAD, AUDIENCE);
+
+    expect(proof).toMatchObject({ action: 'transfer', audience: AUDIENCE, approver: 'alice' });
+    expect(decodeHumanAuthorizationProof(encodeHumanAuthorizationProof(proof))).toEqual(proof);
+    expect(await verifyHumanAuthorization(proof, document, 'transfer', PAYLOAD, AUDIENCE)).toEqual({ valid: true });
+  });
+
+  it('拒绝时抛出错误', async () => {
+    const { did, keys } = await createIdentity();
+    await expect(createAuthorizer(did, keys, false).authorize('transfer', PAYLOAD, AUDIENCE)).rejects.toThrow('人类授权被拒绝');
+  });
+
+  it('DID停用后拒绝签署，包括审批期间停用', async () => {
+    const { did, keys } = await createIdentity();
+    let deactivated = true;
+    const options = { did, keys, logLevel: 'error' as const, isDeactivated: () => deactivated };
+
+    await expect(new HumanAuthorizer({ ...options, approver: createStaticApprover(true) }).authorize('transfer', PAYLOAD, AUDIENCE))
+      .rejects.toThrow('DID已停用');
+
+    deactivated = false;
+    const authorizer = new HumanAuthorizer({
+      ...options,
+      approver: async () => {
+        deactivated = true;
+        return true;
+      }
+    });
+    await expect(authorizer.authorize('transfer', PAYLOAD, AUDIENCE)).rejects.toThrow('DID已停用');
+  });
+
+  it('校验操作、服务和内容', async () => {
+    const { did, document, keys } = await createIdentity();
+    const proof = await createAuthorizer(did, keys).authorize('transfer', PAYLOAD, AUDIENCE);
+
+    expect(await verifyHumanAuthorization(proof, document, 'delete', PAYLOAD, AUDIENCE)).toMatchObject({ error: 'action_mismatch' });
+    expect(await verifyHumanAuthorization(proof, document, 'transfer', PAYLOAD, 'other.example.com')).toMatchObject({ error: 'audience_mismatch' });
+    expect(await verifyHumanAuthorization(proof, document, 'transfer', { ...PAYLOAD, amount: 1000 }, AUDIENCE)).toMatchObject({ error: 'payload_mismatch' });
+  });
+
+  it('不接受身份验证密钥签署的凭证', async () => {
+    const { did, document, keys } = await createIdentity();
+    const authKeyId = document.authentication[0] as string;
+    // 旧版本文档将身份验证密钥也列在humanAuthorization中
+    const legacyDocument = { ...document, humanAuthorization: [authKeyId, ...document.humanAuthorization!] };
+    const authKeyAsHuman: KeyBundle = { [authKeyId]: { ...keys[authKeyId], purpose: 'humanAuthorization' } };
+
+    const proof = await createAuthorizer(did, authKeyAsHuman).authorize('transfer', PAYLOAD, AUDIENCE);
+
+    expect(proof.verificationMethod).toBe(authKeyId);
+    expect(await verifyHumanAuthorization(proof, legacyDocument, 'transfer', PAYLOAD, AUDIENCE))
+      .toMatchObject({ valid: false, error: 'verification_method_not_found' });
+  });
+
+  it('验证器拒绝重放的凭证，包括并发重放', async () => {
+    const { did, document, keys } = await createIdentity();
+    const authorizer = createAuthorizer(did, keys);
+    const verifier = new HumanAuthorizationVerifier();
+
+    const proof = await authorizer.authorize('transfer', PAYLOAD, AUDIENCE);
+    const results = await Promise.all([1, 2].map(() => verifier.verify(proof, document, 'transfer', PAYLOAD, AUDIENCE)));
+    expect(results.map(result => result.valid).sort()).toEqual([false, true]);
+    expect(await verifier.verify(proof, document, 'transfer', PAYLOAD, AUDIENCE)).toMatchObject({ error: 'replayed_nonce' });
+
+    // 验证失败的凭证不占用nonce
+    const another = await authorizer.authorize('transfer', PAYLOAD, AUDIENCE);
+    expect((await verifier.verify(another, document, 'transfer', PAYLOAD, 'other.example.com')).valid).toBe(false);
+    expect((await verifier.verify(another, document, 'transfer', PAYLOAD, AUDIENCE)).valid).toBe(true);
+  });
+});
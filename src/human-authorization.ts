@@ -0,0 +1,408 @@
+/**
+ * ANP人类授权模块
+ * 对需要人工批准的操作调用审批回调，并使用humanAuthorization密钥签署批准凭证
+ */
+
+import * as crypto from 'crypto';
+import * as readline from 'readline';
+import { Buffer } from 'buffer';
+import { ANPKeyGenerator, DIDDocument, KeyBundle, KeyType, VerificationMethod } from './anp-key-generator';
+import { findBundleKey, importPrivateKey, importPublicKey } from './key-format';
+import { canonicalize } from './jcs';
+
+// 携带人类授权凭证的HTTP头
+export const HUMAN_AUTHORIZATION_HEADER = 'X-ANP-Human-Authorization';
+
+// 类型定义
+export interface HumanAuthorizationRequest {
+  /** 需要批准的操作名称 */
+  action: string;
+  /** 发起操作的智能体DID */
+  requester: string;
+  /** 接收操作的服务（目标主机） */
+  audience: string;
+  /** 操作内容 */
+  payload: any;
+  /** 展示给审批人的说明 */
+  description?: string;
+}
+
+export interface HumanApprovalDecision {
+  approved: boolean;
+  /** 审批人标识（可选，写入凭证） */
+  approver?: string;
+  /** 拒绝原因 */
+  reason?: string;
+}
+
+/** 审批回调：返回布尔值或详细决定 */
+export type HumanApprover = (request: HumanAuthorizationRequest) => Promise<boolean | HumanApprovalDecision>;
+
+export interface HumanAuthorizationProof {
+  type: 'ANPHumanAuthorization';
+  /** 签名所用的humanAuthorization验证方法ID */
+  verificationMethod: string;
+  action: string;
+  /** 凭证只对该服务有效（目标主机，与DIDWba签名中的service一致） */
+  audience: string;
+  /** 操作内容JCS规范化后的SHA-256摘要（base64url） */
+  payloadDigest: string;
+  approver?: string;
+  /** 一次性随机值，验证方据此拒绝重放 */
+  nonce: string;
+  created: string;
+  expires: string;
+  signature: string;
+}
+
+export interface HumanAuthorizerOptions {
+  /** 智能体DID */
+  did: string;
+  /** 包含humanAuthorization私钥的密钥包 */
+  keys: KeyBundle;
+  /** DID是否已停用，停用后拒绝签署（例如 () => didConfig.isDeactivated()） */
+  isDeactivated?: () => boolean;
+  /** 审批回调 */
+  approver: HumanApprover;
+  /** 需要人类授权的操作，'*'表示所有带action的请求 */
+  actions?: string[];
+  /** 凭证有效期（毫秒） */
+  validity?: number;
+  /** 等待审批的超时时间（毫秒），0表示不限 */
+  approvalTimeout?: number;
+  /** 日志级别 */
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export interface HumanAuthorizationVerificationResult {
+  valid: boolean;
+  error?: 'missing_proof' | 'invalid_proof' | 'action_mismatch' | 'audience_mismatch' | 'payload_mismatch' | 'expired'
+    | 'replayed_nonce' | 'verification_method_not_found' | 'invalid_signature';
+  message?: string;
+}
+
+/**
+ * 人类授权类
+ */
+export class HumanAuthorizer {
+  private options: Required<HumanAuthorizerOptions>;
+
+  constructor(options: HumanAuthorizerOptions) {
+    this.options = {
+      actions: ['*'],
+      validity: 5 * 60 * 1000,
+      approvalTimeout: 0,
+      isDeactivated: () => false,
+      logLevel: 'info',
+      ...options
+    };
+  }
+
+  /**
+   * 判断操作是否需要人类授权
+   */
+  public requiresApproval(action: string | undefined): boolean {
+    if (!action) {
+      return false;
+    }
+    return this.options.actions.includes('*') || this.options.actions.includes(action);
+  }
+
+  /**
+   * 请求人工批准并签署授权凭证，被拒绝时抛出错误
+   * @param audience 接收操作的服务（目标主机），凭证只对该服务有效
+   */
+  async authorize(action: string, payload: any, audience: string, description?: string): Promise<HumanAuthorizationProof> {
+    this.assertActive();
+    const keyEntry = findBundleKey(this.options.keys, 'humanAuthorization');
+    if (!keyEntry) {
+      throw new Error('密钥包中没有humanAuthorization私钥');
+    }
+
+    this.log('info', `⏸️ 等待人类授权: ${action}`);
+    const decision = normalizeDecision(await this.waitForApproval({
+      action,
+      requester: this.options.did,
+      audience,
+      payload,
+      description
+    }));
+
+    if (!decision.approved) {
+      this.log('warn', `⛔ 人类授权被拒绝: ${action}${decision.reason ? ` (${decision.reason})` : ''}`);
+      throw new Error(`人类授权被拒绝: ${action}${decision.reason ? ` (${decision.reason})` : ''}`);
+    }
+
+    const now = Date.now();
+    const unsigned: Omit<HumanAuthorizationProof, 'signature'> = {
+      type: 'ANPHumanAuthorization',
+      verificationMethod: keyEntry.id,
+      action,
+      audience,
+      payloadDigest: digestPayload(payload),
+      ...(decision.approver ? { approver: decision.approver } : {}),
+      nonce: crypto.randomBytes(16).toString('base64url'),
+      created: new Date(now).toISOString(),
+      expires: new Date(now + this.options.validity).toISOString()
+    };
+
+    // 等待审批期间DID可能已停用
+    this.assertActive();
+    const generator = new ANPKeyGenerator('');
+    const { privateKey, keyType } = importPrivateKey(keyEntry.entry.privateKey);
+    const signature = keyType === KeyType.SECP256K1
+      ? await generator.signSecp256k1(privateKey, unsigned)
+      : await generator.signEd25519(privateKey, unsigned);
+
+    this.log('info', `✅ 人类授权已签署: ${action}`);
+    return { ...unsigned, signature };
+  }
+
+  /**
+   * DID已停用时拒绝签署
+   */
+  private assertActive(): void {
+    if (this.options.isDeactivated()) {
+      throw new Error(`DID已停用，不能签署人类授权: ${this.options.did}`);
+    }
+  }
+
+  /**
+   * 调用审批回调，支持超时
+   */
+  private waitForApproval(request: HumanAuthorizationRequest): Promise<boolean | HumanApprovalDecision> {
+    const approval = this.options.approver(request);
+    if (!this.options.approvalTimeout) {
+      return approval;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<HumanApprovalDecision>((resolve) => {
+      timer = setTimeout(() => resolve({ approved: false, reason: '审批超时' }), this.options.approvalTimeout);
+    });
+    return Promise.race([approval, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * 日志输出
+   */
+  private log(level: string, message: string): void {
+    const levels = ['debug', 'info', 'warn', 'error'];
+    const currentLevel = levels.indexOf(this.options.logLevel);
+    const messageLevel = levels.indexOf(level);
+
+    if (messageLevel >= currentLevel) {
+      console.log(`[${new Date().toISOString()}] [HUMAN-AUTH] [${level.toUpperCase()}] ${message}`);
+    }
+  }
+}
+
+/**
+ * 人类授权凭证验证器，记录已使用的nonce，每个凭证只能使用一次
+ */
+export class HumanAuthorizationVerifier {
+  // 发起方DID与nonce -> 凭证过期时间
+  private usedNonces: Map<string, number> = new Map();
+
+  /**
+   * 验证人类授权凭证并拒绝重放
+   * @param audience 本服务（请求的Host）
+   */
+  async verify(
+    proof: HumanAuthorizationProof | undefined,
+    didDocument: DIDDocument,
+    action: string,
+    payload: any,
+    audience: string
+  ): Promise<HumanAuthorizationVerificationResult> {
+    if (!proof || typeof proof.nonce !== 'string') {
+      return verifyHumanAuthorization(proof, didDocument, action, payload, audience);
+    }
+
+    // 在await之前同步占用nonce，验证未通过时释放
+    const now = Date.now();
+    this.pruneNonces(now);
+    const nonceKey = `${didDocument.id} ${proof.nonce}`;
+    if (this.usedNonces.has(nonceKey)) {
+      return { valid: false, error: 'replayed_nonce', message: `人类授权凭证已被使用: ${proof.nonce}` };
+    }
+    this.usedNonces.set(nonceKey, Date.parse(proof.expires) || now);
+
+    const result = await verifyHumanAuthorization(proof, didDocument, action, payload, audience);
+    if (!result.valid) {
+      this.usedNonces.delete(nonceKey);
+    }
+    return result;
+  }
+
+  /**
+   * 清理已过期凭证的nonce记录
+   */
+  private pruneNonces(now: number): void {
+    for (const [key, expiresAt] of this.usedNonces) {
+      if (expiresAt < now) {
+        this.usedNonces.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * 验证人类授权凭证（不检查重放，服务端应使用HumanAuthorizationVerifier）
+ * @param didDocument 操作发起方的DID文档
+ * @param audience 本服务（请求的Host），必须与凭证的audience一致
+ */
+export async function verifyHumanAuthorization(
+  proof: HumanAuthorizationProof | undefined,
+  didDocument: DIDDocument,
+  action: string,
+  payload: any,
+  audience: string
+): Promise<HumanAuthorizationVerificationResult> {
+  if (!proof) {
+    return { valid: false, error: 'missing_proof', message: `操作 ${action} 需要人类授权凭证` };
+  }
+  if (proof.type !== 'ANPHumanAuthorization' || !proof.signature || !proof.verificationMethod || !proof.nonce) {
+    return { valid: false, error: 'invalid_proof', message: '人类授权凭证格式无效' };
+  }
+  if (proof.action !== action) {
+    return { valid: false, error: 'action_mismatch', message: `凭证授权的操作为 ${proof.action}，而非 ${action}` };
+  }
+  if (proof.audience !== audience) {
+    return { valid: false, error: 'audience_mismatch', message: `凭证授权的服务为 ${proof.audience}，而非 ${audience}` };
+  }
+  if (proof.payloadDigest !== digestPayload(payload)) {
+    return { valid: false, error: 'payload_mismatch', message: '凭证与请求内容不一致' };
+  }
+
+  const now = Date.now();
+  if (isNaN(Date.parse(proof.expires)) || Date.parse(proof.expires) <= now || Date.parse(proof.created) > now + 60 * 1000) {
+    return { valid: false, error: 'expired', message: `凭证不在有效期内: ${proof.created} ~ ${proof.expires}` };
+  }
+
+  const method = findHumanAuthorizationMethod(didDocument, proof.verificationMethod);
+  if (!method) {
+    return {
+      valid: false,
+      error: 'verification_method_not_found',
+      message: `${proof.verificationMethod} 不是 ${didDocument.id} 专用的humanAuthorization方法`
+    };
+  }
+
+  const { signature, ...unsigned } = proof;
+  const generator = new ANPKeyGenerator('');
+  let valid = false;
+  try {
+    const { publicKey, keyType } = importPublicKey(method);
+    if (keyType === KeyType.ED25519) {
+      valid = await generator.verifyEd25519(publicKey, signature, unsigned);
+    } else if (keyType === KeyType.SECP256K1) {
+      valid = await generator.verifySecp256k1(publicKey, signature, unsigned);
+    }
+  } catch (error) {
+    valid = false;
+  }
+
+  if (!valid) {
+    return { valid: false, error: 'invalid_signature', message: '人类授权签名验证失败' };
+  }
+  return { valid: true };
+}
+
+/**
+ * 编码凭证以放入HTTP头
+ */
+export function encodeHumanAuthorizationProof(proof: HumanAuthorizationProof): string {
+  return Buffer.from(JSON.stringify(proof), 'utf8').toString('base64url');
+}
+
+/**
+ * 解码HTTP头中的凭证，格式错误时返回undefined
+ */
+export function decodeHumanAuthorizationProof(value: string | undefined): HumanAuthorizationProof | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 命令行审批回调：在终端提示审批人输入y/n
+ */
+export function createCLIApprover(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): HumanApprover {
+  return (request) => new Promise((resolve) => {
+    const rl = readline.createInterface({ input, output });
+    const summary = request.description || JSON.stringify(request.payload);
+    rl.question(`\n[人类授权] ${request.requester} 请求执行 "${request.action}": ${summary}\n是否批准? (y/N) `, (answer) => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+/**
+ * Webhook审批回调：POST审批请求，期望返回 { approved, approver?, reason? }
+ */
+export function createWebhookApprover(
+  url: string,
+  fetchFn: (url: string, init: RequestInit) => Promise<Response> = fetch
+): HumanApprover {
+  return async (request) => {
+    const response = await fetchFn(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    if (!response.ok) {
+      return { approved: false, reason: `审批服务返回 HTTP ${response.status}` };
+    }
+    return await response.json() as HumanApprovalDecision;
+  };
+}
+
+/**
+ * 固定结果的审批回调，用于测试和无人值守场景
+ */
+export function createStaticApprover(approved: boolean, approver: string = 'static-approver'): HumanApprover {
+  return async () => ({ approved, approver });
+}
+
+/**
+ * 计算操作内容摘要
+ */
+function digestPayload(payload: any): string {
+  return crypto.createHash('sha256').update(canonicalize(payload ?? null), 'utf8').digest('base64url');
+}
+
+function normalizeDecision(decision: boolean | HumanApprovalDecision): HumanApprovalDecision {
+  return typeof decision === 'boolean' ? { approved: decision } : decision;
+}
+
+/**
+ * 查找humanAuthorization关系中的验证方法
+ * 同时用于authentication的密钥由智能体自动使用，不能代表人类批准
+ */
+function findHumanAuthorizationMethod(didDocument: DIDDocument, id: string): VerificationMethod | null {
+  const methods = didDocument.verificationMethod || [];
+  const authentication = (didDocument.authentication || []).map(ref => typeof ref === 'string' ? ref : ref.id);
+  if (authentication.includes(id)) {
+    return null;
+  }
+
+  for (const reference of didDocument.humanAuthorization || []) {
+    const method = typeof reference === 'string'
+      ? methods.find(m => m.id === reference)
+      : reference;
+    if (method && method.id === id) {
+      return method;
+    }
+  }
+  return null;
+}
@@ -5,9 +5,76 @@
 
 // 导出核心类
 export { ANPSDK, AutoConfigAgent, ANPClient } from './auto-config';
-export { HTTPAutoConfig } from './http-auto-config';
+export { HTTPAutoConfig, handleShutdownSignals } from './http-auto-config';
 export { DIDAutoConfig } from './did-auto-config';
+export { DIDResolver, DIDDeactivatedError, DID_DEACTIVATED_STATUS } from './did-resolver';
+export { Keystore } from './keystore';
+export {
+  encryptMessage,
+  decryptMessage,
+  deriveSharedSecret,
+  findKeyAgreementMethod,
+  isEncryptedEnvelope
+} from './e2ee';
+export {
+  HumanAuthorizer,
+  HumanAuthorizationVerifier,
+  verifyHumanAuthorization,
+  encodeHumanAuthorizationProof,
+  decodeHumanAuthorizationProof,
+  createCLIApprover,
+  createWebhookApprover,
+  createStaticApprover,
+  HUMAN_AUTHORIZATION_HEADER
+} from './human-authorization';
 export { ANPKeyGenerator, KeyType } from './anp-key-generator';
+export { canonicalize } from './jcs';
+export { generateDIDKey, resolveDIDKey, isDIDKey, DID_KEY_PREFIX } from './did-key';
+export {
+  signSecp256k1Hash,
+  verifySecp256k1Hash,
+  encodeSecp256k1Signature,
+  parseSecp256k1Signature,
+  recoverSecp256k1PublicKey
+} from './secp256k1-signature';
+export { signJWS, verifyJWS, decodeJWS, getJWSAlgorithm } from './jws';
+export {
+  signDataIntegrity,
+  verifyDataIntegrity,
+  verifyDIDDocumentProof,
+  verifyAgentDescriptionProof
+} from './data-integrity';
+export {
+  issueCredential,
+  createPresentation,
+  verifyCredential,
+  verifyPresentation,
+  CREDENTIALS_V2_CONTEXT
+} from './credentials';
+export { validateDIDDocument } from './did-validator';
+export { InMemorySigner, isSigner, toSigner, DEFAULT_SIGNER_KEY_ID } from './signer';
+export { RemoteSigner, SignerServer } from './remote-signer';
+export {
+  AccessTokenIssuer,
+  parseBearerToken,
+  getAccessTokenExpiry,
+  BEARER_SCHEME
+} from './access-token';
+export {
+  exportPrivateKey,
+  importPrivateKey,
+  toPrivateJWK,
+  fromPrivateJWK,
+  toPublicJWK,
+  importPublicKey,
+  encodePublicKeyMultibase,
+  decodePublicKeyMultibase,
+  exportKeyBundle,
+  importKeyBundle,
+  findBundleKey
+} from './key-format';
+export { buildDIDWbaHeader, parseDIDWbaHeader, DIDWbaVerifier, DIDWBA_SCHEME } from './did-wba-auth';
+export { createTrustedFetch, generateSelfSignedCertificate } from './tls-certificate';
 
 // 导出类型定义
 export type {
@@ -15,27 +82,118 @@ export type {
   AgentConfig,
   ANPRequest,
   ANPResponse,
-  AgentInterface
+  AgentInterface,
+  ANPClientOptions,
+  SendRequestOptions
 } from './auto-config';
 
 export type {
   HTTPAutoConfigOptions,
   RouteConfig,
+  MountedRoute,
   HTTPConfig
 } from './http-auto-config';
 
 export type {
   DIDAutoConfigOptions,
   ServiceEndpoint,
-  DIDConfig
+  DIDConfig,
+  KeyRotationResult,
+  VerificationRelationship,
+  DIDDocumentUpdate,
+  DIDDocumentMetadata,
+  DIDDocumentResponse
 } from './did-auto-config';
 
+export type {
+  DIDResolverOptions,
+  DIDFetch
+} from './did-resolver';
+
+export type {
+  EncryptedEnvelope
+} from './e2ee';
+
+export type {
+  HumanAuthorizationRequest,
+  HumanApprovalDecision,
+  HumanApprover,
+  HumanAuthorizationProof,
+  HumanAuthorizerOptions,
+  HumanAuthorizationVerificationResult
+} from './human-authorization';
+
+export type {
+  KeystoreOptions,
+  KeystoreEntry,
+  KeystoreEntryInfo,
+  KeystoreIdentity
+} from './keystore';
+
+export type { Secp256k1SignatureFormat, ParsedSecp256k1Signature } from './secp256k1-signature';
+export type { JWSAlgorithm, JWSHeader, DecodedJWS } from './jws';
+export type {
+  DataIntegrityProof,
+  DataIntegrityCryptosuite,
+  DataIntegrityProofOptions,
+  DataIntegrityVerifyOptions,
+  DataIntegrityVerificationResult
+} from './data-integrity';
+export type {
+  VerifiableCredential,
+  VerifiablePresentation,
+  CredentialSubject,
+  IssueCredentialOptions,
+  CreatePresentationOptions,
+  CredentialVerifyOptions,
+  PresentationVerifyOptions,
+  CredentialVerificationResult,
+  PresentationVerificationResult
+} from './credentials';
+export type {
+  DIDValidationSeverity,
+  DIDValidationCode,
+  DIDValidationIssue,
+  DIDValidationReport,
+  DIDValidationOptions
+} from './did-validator';
+export type { Signer } from './signer';
+export type { SignerServerOptions, RemoteSignerOptions, SpawnSignerOptions } from './remote-signer';
+export type {
+  AccessTokenIssuerOptions,
+  AccessTokenClaims,
+  IssuedAccessToken,
+  AccessTokenErrorCode,
+  AccessTokenVerificationResult
+} from './access-token';
+
+export type {
+  PrivateKeyFormat,
+  PrivateKeyJWK,
+  ImportedPrivateKey,
+  ImportedPublicKey
+} from './key-format';
+
 export type {
   KeyPairResult,
+  KeyBundle,
+  KeyBundleEntry,
+  KeyPurpose,
   DIDDocument,
+  DIDDocumentVersion,
+  DIDVersionQuery,
   VerificationMethod,
   Service
 } from './anp-key-generator';
 
+export type {
+  DIDWbaAuthHeader,
+  DIDWbaErrorCode,
+  DIDWbaVerificationResult,
+  DIDWbaVerifierOptions
+} from './did-wba-auth';
+
+export type { TLSCredentials, SelfSignedCertificateOptions, FetchFunction } from './tls-certificate';
+
 // 默认导出主SDK类
 export { ANPSDK as default } from './auto-config';
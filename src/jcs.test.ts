@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { canonicalize } from './jcs';
+
+// IEEE 754双精度位模式转为数字
+function fromHex(hex: string): number {
+  return Buffer.from(hex, 'hex').readDoubleBE(0);
+}
+
+describe('canonicalize', () => {
+  // RFC 8785 Appendix B 数字序列化示例
+  it.each([
+    ['0000000000000000', '0'],
+    ['8000000000000000', '0'],
+    ['0000000000000001', '5e-324'],
+    ['8000000000000001', '-5e-324'],
+    ['7fefffffffffffff', '1.7976931348623157e+308'],
+    ['ffefffffffffffff', '-1.7976931348623157e+308'],
+    ['4340000000000000', '9007199254740992'],
+    ['c340000000000000', '-9007199254740992'],
+    ['4430000000000000', '295147905179352830000'],
+    ['44b52d02c7e14af5', '9.999999999999997e+22'],
+    ['44b52d02c7e14af6', '1e+23'],
+    ['44b52d02c7e14af7', '1.0000000000000001e+23'],
+    ['444b1ae4d6e2ef4e', '999999999999999700000'],
+    ['444b1ae4d6e2ef4f', '999999999999999900000'],
+    ['444b1ae4d6e2ef50', '1e+21'],
+    ['3eb0c6f7a0b5ed8c', '9.999999999999997e-7'],
+    ['3eb0c6f7a0b5ed8d', '0.000001'],
+    ['41b3de4355555553', '333333333.3333332'],
+    ['41b3de4355555554', '333333333.33333325'],
+    ['41b3de4355555555', '333333333.3333333'],
+    ['41b3de4355555556', '333333333.3333334'],
+    ['41b3de4355555557', '333333333.33333343'],
+    ['becbf647612f3696', '-0.0000033333333333333333'],
+    ['43143ff3c1cb0959', '1424953923781206.2']
+  ])('数字 %s 序列化为 %s', (hex, expected) => {
+    expect(canonicalize(fromHex(hex))).toBe(expected);
+  });
+
+  it.each(['7fffffffffffffff', '7ff0000000000000', 'fff0000000000000'])('拒绝NaN和Infinity (%s)', hex => {
+    expect(() => canonicalize(fromHex(hex))).toThrow();
+  });
+
+  // RFC 8785 3.2.3 键按UTF-16码元排序
+  it('按UTF-16码元排序对象键', () => {
+    const input = JSON.parse(String.raw`{
+      "\u20ac": "Euro Sign",
+      "\r": "Carriage Return",
+      "\ufb33": "Hebrew Letter Dalet With Dagesh",
+      "1": "One",
+      "\ud83d\ude00": "Emoji: Grinning Face",
+      "\u0080": "Control",
+      "\u00f6": "Latin Small Letter O With Diaeresis"
+    }`);
+
+    const keys = ['\r', '1', '\u0080', '\u00f6', '\u20ac', '\ud83d\ude00', '\ufb33'];
+    expect(canonicalize(input)).toBe(`{${keys.map(key => `${JSON.stringify(key)}:${JSON.stringify(input[key])}`).join(',')}}`);
+  });
+
+  // RFC 8785 3.2.4 完整示例（数字、字符串转义和字面量）
+  it('输出RFC 8785示例的规范形式', () => {
+    const input = JSON.parse(String.raw`{
+      "numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+      "string": "\u20ac$\u000F\u000aA'\u0042\u0022\u005c\\\"\/",
+      "literals": [null, true, false]
+    }`);
+
+    expect(canonicalize(input)).toBe(
+      String.raw`{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\u000f\nA'B\"\\\\\"/"}`
+    );
+  });
+
+  it('控制字符使用小写十六进制转义，非ASCII字符原样输出', () => {
+    expect(canonicalize('\u0000\u001f\b\t\f é😀')).toBe('"\\u0000\\u001f\\b\\t\\f é😀"');
+  });
+
+  it('省略undefined成员，数组中的undefined输出为null', () => {
+    expect(canonicalize({ b: undefined, a: [undefined, 1] })).toBe('{"a":[null,1]}');
+  });
+
+  it('嵌套对象递归排序', () => {
+    expect(canonicalize({ z: { b: 1, a: 2 }, a: [{ d: 1, c: 2 }] })).toBe('{"a":[{"c":2,"d":1}],"z":{"a":2,"b":1}}');
+  });
+
+  it('拒绝BigInt', () => {
+    expect(() => canonicalize(BigInt(1))).toThrow();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * JSON规范化模块
+ * 按RFC 8785 (JSON Canonicalization Scheme) 序列化JSON数据
+ */
+
+/**
+ * 将值序列化为JCS规范字符串
+ *
+ * - 对象的键按UTF-16码元递归排序
+ * - 数字按ECMAScript Number.prototype.toString规则输出，不允许NaN/Infinity
+ * - 字符串按ECMAScript JSON.stringify规则转义
+ */
+export function canonicalize(value: any): string {
+  const result = serialize(value);
+  if (result === undefined) {
+    throw new Error(`无法规范化的JSON值: ${typeof value}`);
+  }
+  return result;
+}
+
+/**
+ * 递归序列化，返回undefined表示该值在对象中应被省略（与JSON.stringify一致）
+ */
+function serialize(value: any): string | undefined {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (value !== undefined && typeof value.toJSON === 'function') {
+    return serialize(value.toJSON());
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`JCS不支持非有限数字: ${value}`);
+      }
+      // ECMAScript数字序列化与RFC 8785一致，-0输出为0
+      return JSON.stringify(value);
+
+    case 'string':
+      return JSON.stringify(value);
+
+    case 'bigint':
+      throw new Error('JCS不支持BigInt，请先转换为数字或字符串');
+
+    case 'object':
+      if (Array.isArray(value)) {
+        const items = value.map(item => serialize(item) ?? 'null');
+        return `[${items.join(',')}]`;
+      }
+      return serializeObject(value);
+
+    default:
+      // undefined、函数、symbol
+      return undefined;
+  }
+}
+
+/**
+ * 序列化对象，键按UTF-16码元排序
+ */
+function serializeObject(obj: Record<string, any>): string {
+  // Array.prototype.sort默认按UTF-16码元比较字符串
+  const keys = Object.keys(obj).sort();
+  const members: string[] = [];
+
+  for (const key of keys) {
+    const serialized = serialize(obj[key]);
+    if (serialized !== undefined) {
+      members.push(`${JSON.stringify(key)}:${serialized}`);
+    }
+  }
+
+  return `{${members.join(',')}}`;
+}
+
+// 导出主要函数
+export { canonicalize as default };
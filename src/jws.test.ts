@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import { decodeJWS, signJWS, verifyJWS } from './jws';
+import { exportPrivateKey } from './key-format';
+import { InMemorySigner } from './signer';
+
+const generator = new ANPKeyGenerator('example.com');
+
+describe('JWS', () => {
+  it.each([
+    [KeyType.ED25519, 'EdDSA', () => generator.generateEd25519KeyPair()],
+    [KeyType.SECP256K1, 'ES256K', () => generator.generateSecp256k1KeyPair()]
+  ])('%s 签名后可以验证 (%s)', async (keyType, alg, generate) => {
+    const { privateKey } = await generate();
+    const signer = new InMemorySigner(exportPrivateKey(privateKey, keyType));
+    const publicKey = { publicKey: await signer.getPublicKey(), keyType };
+
+    const jws = await signJWS({ sub: 'did:wba:example.com' }, signer, { kid: 'did:wba:example.com#key-1' });
+    const decoded = decodeJWS(jws);
+
+    expect(decoded.header).toEqual({ alg, kid: 'did:wba:example.com#key-1' });
+    expect(decoded.payload).toEqual({ sub: 'did:wba:example.com' });
+    expect(await verifyJWS(jws, publicKey)).toBe(true);
+
+    // 篡改载荷后验证失败
+    const [header, , signature] = jws.split('.');
+    const tampered = `${header}.${Buffer.from('{"sub":"did:wba:evil.com"}').toString('base64url')}.${signature}`;
+    expect(await verifyJWS(tampered, publicKey)).toBe(false);
+  });
+
+  it('拒绝与公钥类型不一致的alg', async () => {
+    const { privateKey } = await generator.generateEd25519KeyPair();
+    const signer = new InMemorySigner(exportPrivateKey(privateKey, KeyType.ED25519));
+    const jws = await signJWS('payload', signer);
+
+    expect(await verifyJWS(jws, { publicKey: await signer.getPublicKey(), keyType: KeyType.SECP256K1 })).toBe(false);
+  });
+
+  it('拒绝格式无效的JWS', () => {
+    expect(() => decodeJWS('not-a-jws')).toThrow();
+  });
+});
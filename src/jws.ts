@@ -0,0 +1,128 @@
+/**
+ * ANP JWS模块
+ * 生成和验证紧凑序列化的JWS（RFC 7515），支持ES256K（RFC 8812）和EdDSA（RFC 8037）
+ */
+
+import { createHash } from 'crypto';
+import { Buffer } from 'buffer';
+import * as ed25519 from '@noble/ed25519';
+import { KeyType } from './anp-key-generator';
+import { ImportedPublicKey } from './key-format';
+import { verifySecp256k1Hash } from './secp256k1-signature';
+import type { Signer } from './signer';
+
+// 支持的JWS算法
+export type JWSAlgorithm = 'ES256K' | 'EdDSA';
+
+// JWS头接口
+export interface JWSHeader {
+  alg: JWSAlgorithm;
+  typ?: string;
+  /** 签名所用验证方法ID */
+  kid?: string;
+  [key: string]: any;
+}
+
+// 解码结果接口
+export interface DecodedJWS {
+  header: JWSHeader;
+  /** 载荷为JSON时返回解析后的对象，否则返回字符串 */
+  payload: any;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/**
+ * 签名并输出紧凑序列化JWS
+ * @param payload 字符串原样签名，对象序列化为JSON后签名
+ */
+export async function signJWS(
+  payload: string | Record<string, any>,
+  signer: Signer,
+  header: Omit<JWSHeader, 'alg'> = {}
+): Promise<string> {
+  const encodedHeader = encodeSegment(JSON.stringify({ ...header, alg: signer.algorithm }));
+  const encodedPayload = encodeSegment(typeof payload === 'string' ? payload : JSON.stringify(payload));
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+
+  // 签名器输出即JWS签名格式（ES256K为64字节r||s）
+  const signature = await signer.sign(Buffer.from(signingInput, 'ascii'));
+
+  return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * 解码JWS（不验证签名）
+ */
+export function decodeJWS(jws: string): DecodedJWS {
+  const parts = jws.split('.');
+  if (parts.length !== 3 || parts.some(part => !/^[A-Za-z0-9_-]*$/.test(part))) {
+    throw new Error('无效的JWS紧凑序列化格式');
+  }
+
+  let header: JWSHeader;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new Error('无效的JWS头');
+  }
+  if (!header || typeof header.alg !== 'string') {
+    throw new Error('JWS头缺少alg');
+  }
+
+  const rawPayload = Buffer.from(parts[1], 'base64url').toString('utf8');
+  let payload: any = rawPayload;
+  try {
+    payload = JSON.parse(rawPayload);
+  } catch {
+    // 非JSON载荷保持字符串
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: `${parts[0]}.${parts[1]}`,
+    signature: new Uint8Array(Buffer.from(parts[2], 'base64url'))
+  };
+}
+
+/**
+ * 验证JWS签名，alg必须与公钥类型一致
+ */
+export async function verifyJWS(jws: string, publicKey: ImportedPublicKey): Promise<boolean> {
+  try {
+    const { header, signingInput, signature } = decodeJWS(jws);
+    if (header.alg !== getJWSAlgorithm(publicKey.keyType)) {
+      return false;
+    }
+
+    if (header.alg === 'ES256K') {
+      return signature.length === 64
+        && verifySecp256k1Hash(signature, hashSigningInput(signingInput), publicKey.publicKey);
+    }
+    return await ed25519.verify(signature, Buffer.from(signingInput, 'ascii'), publicKey.publicKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 密钥类型对应的JWS算法
+ */
+export function getJWSAlgorithm(keyType: KeyType): JWSAlgorithm {
+  if (keyType === KeyType.SECP256K1) {
+    return 'ES256K';
+  }
+  if (keyType === KeyType.ED25519) {
+    return 'EdDSA';
+  }
+  throw new Error(`密钥类型 ${keyType} 不能用于JWS签名`);
+}
+
+function encodeSegment(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64url');
+}
+
+function hashSigningInput(signingInput: string): Uint8Array {
+  return createHash('sha256').update(signingInput, 'ascii').digest();
+}
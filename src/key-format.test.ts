@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import {
+  decodePublicKeyMultibase,
+  encodePublicKeyMultibase,
+  exportKeyBundle,
+  exportPrivateKey,
+  importKeyBundle,
+  importPrivateKey,
+  importPublicKey,
+  toPublicJWK
+} from './key-format';
+
+const generator = new ANPKeyGenerator('example.com', 'alice');
+
+describe('私钥导入导出', () => {
+  it.each([
+    [KeyType.ED25519, () => generator.generateEd25519KeyPair()],
+    [KeyType.SECP256K1, () => generator.generateSecp256k1KeyPair()],
+    [KeyType.X25519, () => generator.generateX25519KeyPair()]
+  ])('%s 在PEM、JWK和十六进制之间往返', async (keyType, generate) => {
+    const { privateKey } = await generate();
+
+    for (const format of ['pem', 'jwk', 'hex'] as const) {
+      const imported = importPrivateKey(exportPrivateKey(privateKey, keyType, format), keyType);
+      expect(imported.keyType).toBe(keyType);
+      expect(Buffer.from(imported.privateKey)).toEqual(Buffer.from(privateKey));
+    }
+  });
+
+  it('十六进制私钥必须指定密钥类型', () => {
+    expect(() => importPrivateKey('11'.repeat(32))).toThrow();
+  });
+
+  it('密钥包往返后私钥不变', async () => {
+    const { keys } = await generator.generateKeyPair(KeyType.SECP256K1);
+    const restored = importKeyBundle(exportKeyBundle(keys, 'jwk'));
+    expect(restored).toEqual(keys);
+  });
+});
+
+describe('公钥编码', () => {
+  it.each([KeyType.ED25519, KeyType.SECP256K1])('%s 的JWK和Multibase解码为同一公钥', async keyType => {
+    const { publicKey } = keyType === KeyType.ED25519
+      ? await generator.generateEd25519KeyPair()
+      : await generator.generateSecp256k1KeyPair();
+
+    const fromMultibase = decodePublicKeyMultibase(encodePublicKeyMultibase(publicKey, keyType));
+    const fromJwk = importPublicKey({ id: 'did:wba:example.com#k', type: keyType, controller: 'did:wba:example.com', publicKeyJwk: { ...toPublicJWK(publicKey, keyType), kid: 'k' } });
+
+    expect(fromMultibase.keyType).toBe(keyType);
+    expect(Buffer.from(fromJwk.publicKey)).toEqual(Buffer.from(fromMultibase.publicKey));
+  });
+
+  it('拒绝与验证方法类型不一致的JWK', async () => {
+    const { publicKey } = await generator.generateEd25519KeyPair();
+    expect(() => importPublicKey({
+      id: 'did:wba:example.com#k',
+      type: KeyType.SECP256K1,
+      controller: 'did:wba:example.com',
+      publicKeyJwk: { ...toPublicJWK(publicKey, KeyType.ED25519), kid: 'k' }
+    })).toThrow();
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * ANP密钥格式转换模块
+ * 支持Ed25519、secp256k1和X25519私钥在PKCS#8 PEM、JWK和原始十六进制格式间的导入导出，
+ * 以及公钥在JWK和Multicodec Multibase编码间的转换
+ */
+
+import * as crypto from 'crypto';
+import { Buffer } from 'buffer';
+import * as secp256k1 from '@noble/secp256k1';
+import bs58 from 'bs58';
+import { KeyBundle, KeyBundleEntry, KeyPurpose, KeyType, PublicKeyJWK, VerificationMethod } from './anp-key-generator';
+
+// 支持的私钥格式
+export type PrivateKeyFormat = 'pem' | 'jwk' | 'hex';
+
+// JWK私钥接口
+export interface PrivateKeyJWK {
+  kty: 'OKP' | 'EC';
+  crv: 'Ed25519' | 'X25519' | 'secp256k1';
+  x: string;
+  y?: string;
+  d: string;
+}
+
+// 导入结果接口
+export interface ImportedPrivateKey {
+  privateKey: Uint8Array;
+  keyType: KeyType;
+}
+
+// 公钥导入结果接口
+export interface ImportedPublicKey {
+  /** Ed25519/X25519为32字节，secp256k1为65字节未压缩格式 */
+  publicKey: Uint8Array;
+  keyType: KeyType;
+}
+
+// Multicodec公钥前缀（varint编码）
+const ED25519_MULTICODEC = Buffer.from([0xed, 0x01]);
+const SECP256K1_MULTICODEC = Buffer.from([0xe7, 0x01]);
+const X25519_MULTICODEC = Buffer.from([0xec, 0x01]);
+
+// Ed25519/X25519 PKCS#8 DER前缀（RFC 8410），后接32字节私钥
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+/**
+ * 导出私钥为指定格式
+ */
+export function exportPrivateKey(privateKey: Uint8Array, keyType: KeyType, format: PrivateKeyFormat = 'pem'): string {
+  if (privateKey.length !== 32) {
+    throw new Error(`私钥长度无效: ${privateKey.length}`);
+  }
+
+  switch (format) {
+    case 'hex':
+      return Buffer.from(privateKey).toString('hex');
+    case 'jwk':
+      return JSON.stringify(toPrivateJWK(privateKey, keyType));
+    case 'pem':
+      return toKeyObject(privateKey, keyType).export({ type: 'pkcs8', format: 'pem' }).toString().trim();
+    default:
+      throw new Error(`不支持的私钥格式: ${format}`);
+  }
+}
+
+/**
+ * 导入私钥，自动识别PEM、JWK和十六进制格式
+ * @param keyType 十六进制格式不携带算法信息，必须指定
+ */
+export function importPrivateKey(data: string, keyType?: KeyType): ImportedPrivateKey {
+  const trimmed = data.trim();
+
+  if (trimmed.startsWith('-----BEGIN')) {
+    return importPEM(trimmed);
+  }
+
+  if (trimmed.startsWith('{')) {
+    return fromPrivateJWK(JSON.parse(trimmed));
+  }
+
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(trimmed)) {
+    if (!keyType) {
+      throw new Error('导入十六进制私钥时必须指定密钥类型');
+    }
+    return { privateKey: new Uint8Array(Buffer.from(trimmed.replace(/^0x/, ''), 'hex')), keyType };
+  }
+
+  throw new Error('无法识别的私钥格式');
+}
+
+/**
+ * 将私钥转换为JWK
+ */
+export function toPrivateJWK(privateKey: Uint8Array, keyType: KeyType): PrivateKeyJWK {
+  if (keyType === KeyType.ED25519 || keyType === KeyType.X25519) {
+    const jwk = toKeyObject(privateKey, keyType).export({ format: 'jwk' });
+    return { kty: 'OKP', crv: keyType === KeyType.ED25519 ? 'Ed25519' : 'X25519', x: jwk.x!, d: jwk.d! };
+  }
+
+  if (keyType === KeyType.SECP256K1) {
+    const publicKey = secp256k1.getPublicKey(privateKey, false);
+    return {
+      kty: 'EC',
+      crv: 'secp256k1',
+      x: Buffer.from(publicKey.slice(1, 33)).toString('base64url'),
+      y: Buffer.from(publicKey.slice(33, 65)).toString('base64url'),
+      d: Buffer.from(privateKey).toString('base64url')
+    };
+  }
+
+  throw new Error(`不支持的密钥类型: ${keyType}`);
+}
+
+/**
+ * 从JWK读取私钥
+ */
+export function fromPrivateJWK(jwk: PrivateKeyJWK): ImportedPrivateKey {
+  if (!jwk.d) {
+    throw new Error('JWK中缺少私钥参数d');
+  }
+
+  let keyType: KeyType;
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    keyType = KeyType.ED25519;
+  } else if (jwk.kty === 'OKP' && jwk.crv === 'X25519') {
+    keyType = KeyType.X25519;
+  } else if (jwk.kty === 'EC' && jwk.crv === 'secp256k1') {
+    keyType = KeyType.SECP256K1;
+  } else {
+    throw new Error(`不支持的JWK类型: ${jwk.kty}/${jwk.crv}`);
+  }
+
+  const privateKey = new Uint8Array(Buffer.from(jwk.d, 'base64url'));
+  if (privateKey.length !== 32) {
+    throw new Error(`私钥长度无效: ${privateKey.length}`);
+  }
+
+  return { privateKey, keyType };
+}
+
+/**
+ * 序列化密钥包，每个私钥按指定格式输出
+ */
+export function exportKeyBundle(bundle: KeyBundle, format: PrivateKeyFormat = 'pem'): string {
+  const serialized: KeyBundle = {};
+
+  for (const [id, entry] of Object.entries(bundle)) {
+    const { privateKey, keyType } = importPrivateKey(entry.privateKey, entry.keyType);
+    serialized[id] = {
+      purpose: entry.purpose,
+      keyType,
+      privateKey: exportPrivateKey(privateKey, keyType, format)
+    };
+  }
+
+  return JSON.stringify(serialized, null, 2);
+}
+
+/**
+ * 读取密钥包，私钥可以是PEM、JWK或十六进制，统一转换为PKCS#8 PEM
+ */
+export function importKeyBundle(data: string): KeyBundle {
+  const parsed = JSON.parse(data) as Record<string, KeyBundleEntry>;
+  const bundle: KeyBundle = {};
+
+  for (const [id, entry] of Object.entries(parsed)) {
+    if (!entry || !entry.purpose || !entry.privateKey) {
+      throw new Error(`密钥包条目无效: ${id}`);
+    }
+    const { privateKey, keyType } = importPrivateKey(entry.privateKey, entry.keyType);
+    if (entry.keyType && entry.keyType !== keyType) {
+      throw new Error(`密钥包条目 ${id} 的密钥类型不一致: ${entry.keyType} / ${keyType}`);
+    }
+    bundle[id] = { purpose: entry.purpose, keyType, privateKey: exportPrivateKey(privateKey, keyType, 'pem') };
+  }
+
+  return bundle;
+}
+
+/**
+ * 查找密钥包中指定用途的第一个私钥
+ */
+export function findBundleKey(bundle: KeyBundle, purpose: KeyPurpose): { id: string; entry: KeyBundleEntry } | null {
+  for (const [id, entry] of Object.entries(bundle)) {
+    if (entry.purpose === purpose) {
+      return { id, entry };
+    }
+  }
+  return null;
+}
+
+/**
+ * 将公钥转换为JWK（不含kid）
+ */
+export function toPublicJWK(publicKey: Uint8Array, keyType: KeyType): Omit<PublicKeyJWK, 'kid'> {
+  if (keyType === KeyType.ED25519 || keyType === KeyType.X25519) {
+    if (publicKey.length !== 32) {
+      throw new Error(`公钥长度无效: ${publicKey.length}`);
+    }
+    return {
+      crv: keyType === KeyType.ED25519 ? 'Ed25519' : 'X25519',
+      x: Buffer.from(publicKey).toString('base64url'),
+      kty: 'OKP'
+    };
+  }
+
+  if (keyType === KeyType.SECP256K1) {
+    // 统一转换为未压缩格式：04 + x(32字节) + y(32字节)
+    const uncompressed = secp256k1.Point.fromHex(publicKey).toRawBytes(false);
+    return {
+      crv: 'secp256k1',
+      x: Buffer.from(uncompressed.slice(1, 33)).toString('base64url'),
+      y: Buffer.from(uncompressed.slice(33, 65)).toString('base64url'),
+      kty: 'EC'
+    };
+  }
+
+  throw new Error(`不支持的密钥类型: ${keyType}`);
+}
+
+/**
+ * 将公钥编码为带Multicodec前缀的Multibase（base58btc）字符串
+ * secp256k1公钥按规范使用33字节压缩格式
+ */
+export function encodePublicKeyMultibase(publicKey: Uint8Array, keyType: KeyType): string {
+  let bytes: Buffer;
+  if (keyType === KeyType.ED25519 || keyType === KeyType.X25519) {
+    if (publicKey.length !== 32) {
+      throw new Error(`公钥长度无效: ${publicKey.length}`);
+    }
+    const prefix = keyType === KeyType.ED25519 ? ED25519_MULTICODEC : X25519_MULTICODEC;
+    bytes = Buffer.concat([prefix, Buffer.from(publicKey)]);
+  } else if (keyType === KeyType.SECP256K1) {
+    bytes = Buffer.concat([SECP256K1_MULTICODEC, secp256k1.Point.fromHex(publicKey).toRawBytes(true)]);
+  } else {
+    throw new Error(`不支持的密钥类型: ${keyType}`);
+  }
+  return `z${bs58.encode(bytes)}`;
+}
+
+/**
+ * 解码带Multicodec前缀的Multibase公钥
+ */
+export function decodePublicKeyMultibase(value: string): ImportedPublicKey {
+  const prefixed = detectMulticodec(decodeBase58btc(value));
+  if (!prefixed) {
+    throw new Error('Multibase公钥缺少可识别的Multicodec前缀');
+  }
+  return { publicKey: normalizePublicKey(prefixed.publicKey, prefixed.keyType), keyType: prefixed.keyType };
+}
+
+/**
+ * 从验证方法读取公钥，支持publicKeyJwk和publicKeyMultibase两种编码
+ */
+export function importPublicKey(method: VerificationMethod): ImportedPublicKey {
+  const declaredType = getMethodKeyType(method.type);
+
+  if (method.publicKeyJwk) {
+    const imported = fromPublicJWK(method.publicKeyJwk);
+    if (declaredType && declaredType !== imported.keyType) {
+      throw new Error(`验证方法 ${method.id} 的类型 ${method.type} 与JWK曲线 ${method.publicKeyJwk.crv} 不一致`);
+    }
+    return imported;
+  }
+
+  if (method.publicKeyMultibase) {
+    const bytes = decodeBase58btc(method.publicKeyMultibase);
+    const prefixed = detectMulticodec(bytes);
+
+    if (prefixed) {
+      if (declaredType && declaredType !== prefixed.keyType) {
+        throw new Error(`验证方法 ${method.id} 的类型 ${method.type} 与Multicodec前缀不一致`);
+      }
+      return { publicKey: normalizePublicKey(prefixed.publicKey, prefixed.keyType), keyType: prefixed.keyType };
+    }
+
+    // 兼容旧版本生成的无Multicodec前缀的原始公钥
+    if (!declaredType) {
+      throw new Error(`不支持的验证方法类型: ${method.type}`);
+    }
+    return { publicKey: normalizePublicKey(bytes, declaredType), keyType: declaredType };
+  }
+
+  throw new Error(`验证方法 ${method.id} 缺少公钥`);
+}
+
+/**
+ * 解码base58btc（z前缀）Multibase字符串
+ */
+function decodeBase58btc(value: string): Uint8Array {
+  if (!value.startsWith('z')) {
+    throw new Error(`不支持的Multibase编码: ${value.charAt(0)}`);
+  }
+  try {
+    return bs58.decode(value.slice(1));
+  } catch (error) {
+    throw new Error(`无效的base58btc编码: ${error}`);
+  }
+}
+
+/**
+ * 按Multicodec前缀和长度识别公钥类型，长度不符时视为无前缀的原始公钥
+ */
+function detectMulticodec(bytes: Uint8Array): ImportedPublicKey | null {
+  const candidates: [Buffer, KeyType, number][] = [
+    [ED25519_MULTICODEC, KeyType.ED25519, 32],
+    [SECP256K1_MULTICODEC, KeyType.SECP256K1, 33],
+    [X25519_MULTICODEC, KeyType.X25519, 32]
+  ];
+
+  for (const [prefix, keyType, length] of candidates) {
+    if (bytes.length === prefix.length + length && Buffer.from(bytes.subarray(0, prefix.length)).equals(prefix)) {
+      return { publicKey: bytes.slice(prefix.length), keyType };
+    }
+  }
+  return null;
+}
+
+/**
+ * 验证方法类型对应的密钥类型，JsonWebKey2020等通用类型返回undefined（由JWK的crv决定）
+ */
+export function getMethodKeyType(type: string): KeyType | undefined {
+  switch (type) {
+    case 'Ed25519VerificationKey2018':
+    case KeyType.ED25519:
+      return KeyType.ED25519;
+    case KeyType.SECP256K1:
+      return KeyType.SECP256K1;
+    case KeyType.X25519:
+    case 'X25519KeyAgreementKey2020':
+      return KeyType.X25519;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 从JWK读取公钥
+ */
+function fromPublicJWK(jwk: PublicKeyJWK): ImportedPublicKey {
+  if (!jwk.x) {
+    throw new Error('JWK中缺少公钥参数x');
+  }
+  const x = new Uint8Array(Buffer.from(jwk.x, 'base64url'));
+
+  if (jwk.kty === 'OKP' && (jwk.crv === 'Ed25519' || jwk.crv === 'X25519')) {
+    const keyType = jwk.crv === 'Ed25519' ? KeyType.ED25519 : KeyType.X25519;
+    return { publicKey: normalizePublicKey(x, keyType), keyType };
+  }
+
+  if (jwk.kty === 'EC' && jwk.crv === 'secp256k1') {
+    if (!jwk.y) {
+      throw new Error('JWK中缺少公钥参数y');
+    }
+    const point = new Uint8Array(Buffer.concat([Buffer.from([0x04]), Buffer.from(x), Buffer.from(jwk.y, 'base64url')]));
+    return { publicKey: normalizePublicKey(point, KeyType.SECP256K1), keyType: KeyType.SECP256K1 };
+  }
+
+  throw new Error(`不支持的JWK类型: ${jwk.kty}/${jwk.crv}`);
+}
+
+/**
+ * 校验公钥长度，secp256k1公钥校验曲线点并转换为未压缩格式
+ */
+function normalizePublicKey(publicKey: Uint8Array, keyType: KeyType): Uint8Array {
+  if (keyType === KeyType.SECP256K1) {
+    try {
+      return secp256k1.Point.fromHex(publicKey).toRawBytes(false);
+    } catch (error) {
+      throw new Error(`无效的secp256k1公钥: ${error}`);
+    }
+  }
+
+  if (publicKey.length !== 32) {
+    throw new Error(`公钥长度无效: ${publicKey.length}`);
+  }
+  return publicKey;
+}
+
+/**
+ * 读取PEM私钥，支持PKCS#8和旧版 ED25519/SECP256K1 PRIVATE KEY 块
+ */
+function importPEM(pem: string): ImportedPrivateKey {
+  const legacy = pem.match(/^-----BEGIN (ED25519|SECP256K1) PRIVATE KEY-----([\s\S]*?)-----END \1 PRIVATE KEY-----$/);
+  if (legacy) {
+    const privateKey = new Uint8Array(Buffer.from(legacy[2].replace(/\s+/g, ''), 'base64'));
+    if (privateKey.length !== 32) {
+      throw new Error(`私钥长度无效: ${privateKey.length}`);
+    }
+    return { privateKey, keyType: legacy[1] === 'ED25519' ? KeyType.ED25519 : KeyType.SECP256K1 };
+  }
+
+  let keyObject: crypto.KeyObject;
+  try {
+    keyObject = crypto.createPrivateKey(pem);
+  } catch (error) {
+    throw new Error(`无效的PEM私钥: ${error}`);
+  }
+
+  const jwk = keyObject.export({ format: 'jwk' });
+  if (keyObject.asymmetricKeyType === 'ed25519') {
+    return fromPrivateJWK({ kty: 'OKP', crv: 'Ed25519', x: jwk.x!, d: jwk.d! });
+  }
+  if (keyObject.asymmetricKeyType === 'x25519') {
+    return fromPrivateJWK({ kty: 'OKP', crv: 'X25519', x: jwk.x!, d: jwk.d! });
+  }
+  if (keyObject.asymmetricKeyType === 'ec' && jwk.crv === 'secp256k1') {
+    return fromPrivateJWK({ kty: 'EC', crv: 'secp256k1', x: jwk.x!, y: jwk.y!, d: jwk.d! });
+  }
+
+  throw new Error(`不支持的PEM私钥类型: ${keyObject.asymmetricKeyType}${jwk.crv ? `/${jwk.crv}` : ''}`);
+}
+
+/**
+ * 创建Node.js私钥对象
+ */
+function toKeyObject(privateKey: Uint8Array, keyType: KeyType): crypto.KeyObject {
+  if (keyType === KeyType.ED25519 || keyType === KeyType.X25519) {
+    const prefix = keyType === KeyType.ED25519 ? ED25519_PKCS8_PREFIX : X25519_PKCS8_PREFIX;
+    return crypto.createPrivateKey({
+      key: Buffer.concat([prefix, Buffer.from(privateKey)]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+  }
+
+  if (keyType === KeyType.SECP256K1) {
+    return crypto.createPrivateKey({ key: toPrivateJWK(privateKey, keyType) as crypto.JsonWebKey, format: 'jwk' });
+  }
+
+  throw new Error(`不支持的密钥类型: ${keyType}`);
+}
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import { Keystore, KeystoreEntry } from './keystore';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+async function createEntry(): Promise<KeystoreEntry> {
+  const identity = await new ANPKeyGenerator('example.com', 'alice').generateKeyPair(KeyType.ED25519);
+  return {
+    did: identity.did,
+    keyType: KeyType.ED25519,
+    privateKey: identity.private_key,
+    keys: identity.keys,
+    didDocument: JSON.parse(identity.did_document),
+    createdAt: new Date().toISOString()
+  };
+}
+
+describe('Keystore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'anp-keystore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const readFile = (name: string) => JSON.parse(fs.readFileSync(path.join(directory, `${name}.json`), 'utf8'));
+  const writeFile = (name: string, file: any) => fs.writeFileSync(path.join(directory, `${name}.json`), JSON.stringify(file));
+
+  it.each(['scrypt', 'pbkdf2'] as const)('%s 加密保存后可以读取', async kdf => {
+    const keystore = new Keystore({ directory, kdf, logLevel: 'error' });
+    const entry = await createEntry();
+
+    await keystore.save('alice', entry, PASSPHRASE);
+
+    expect(await keystore.load('alice', PASSPHRASE)).toEqual(entry);
+    expect(fs.readFileSync(path.join(directory, 'alice.json'), 'utf8')).not.toContain('PRIVATE KEY');
+    expect(await keystore.list()).toEqual([{ name: 'alice', did: entry.did, keyType: entry.keyType, createdAt: entry.createdAt }]);
+  });
+
+  it('口令错误时无法读取', async () => {
+    const keystore = new Keystore({ directory, logLevel: 'error' });
+    await keystore.save('alice', await createEntry(), PASSPHRASE);
+
+    await expect(keystore.load('alice', 'wrong passphrase')).rejects.toThrow('口令错误或文件已损坏');
+  });
+
+  it('篡改明文元数据后无法读取', async () => {
+    const keystore = new Keystore({ directory, logLevel: 'error' });
+    await keystore.save('alice', await createEntry(), PASSPHRASE);
+
+    writeFile('alice', { ...readFile('alice'), did: 'did:wba:evil.com' });
+    await expect(keystore.load('alice', PASSPHRASE)).rejects.toThrow('口令错误或文件已损坏');
+  });
+
+  it('口令派生参数受认证保护，且不接受低于默认强度的参数', async () => {
+    const keystore = new Keystore({ directory, logLevel: 'error' });
+    await keystore.save('alice', await createEntry(), PASSPHRASE);
+    const file = readFile('alice');
+
+    writeFile('alice', { ...file, kdf: { ...file.kdf, N: 1024 } });
+    await expect(keystore.load('alice', PASSPHRASE)).rejects.toThrow('低于最低强度');
+
+    // 不影响密钥派生的字段被修改也会被发现
+    writeFile('alice', { ...file, kdf: { ...file.kdf, iterations: 1 } });
+    await expect(keystore.load('alice', PASSPHRASE)).rejects.toThrow('口令错误或文件已损坏');
+  });
+
+  it.each([
+    ['scrypt N', { N: 2 ** 21 }],
+    ['scrypt r', { r: 64 }],
+    ['scrypt p', { p: 1024 }],
+    ['PBKDF2迭代次数', { name: 'pbkdf2', digest: 'sha256', iterations: 10 ** 9 }]
+  ])('拒绝超出上限的%s，不进行口令派生', async (_param, params) => {
+    const keystore = new Keystore({ directory, logLevel: 'error' });
+    await keystore.save('alice', await createEntry(), PASSPHRASE);
+    const file = readFile('alice');
+
+    writeFile('alice', { ...file, kdf: { ...file.kdf, ...params } });
+    await expect(keystore.load('alice', PASSPHRASE)).rejects.toThrow('超出允许范围');
+  });
+
+  it('读取版本1文件（口令派生参数不在附加认证数据中）', async () => {
+    const keystore = new Keystore({ directory, logLevel: 'error' });
+    const entry = await createEntry();
+    const kdf = { name: 'scrypt', salt: crypto.randomBytes(16).toString('base64'), N: 32768, r: 8, p: 1 };
+    const key = crypto.scryptSync(PASSPHRASE, Buffer.from(kdf.salt, 'base64'), 32, { N: 32768, r: 8, p: 1, maxmem: 256 * 32768 * 8 });
+    const header = { name: 'legacy', did: entry.did, keyType: entry.keyType, createdAt: entry.createdAt };
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(JSON.stringify(header), 'utf8'));
+    const payload = { privateKey: entry.privateKey, keys: entry.keys, didDocument: entry.didDocument };
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+    writeFile('legacy', {
+      version: 1,
+      ...header,
+      kdf,
+      cipher: { name: 'aes-256-gcm', iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), ciphertext: ciphertext.toString('base64') }
+    });
+
+    expect((await keystore.load('legacy', PASSPHRASE)).privateKey).toBe(entry.privateKey);
+
+    writeFile('legacy', { ...readFile('legacy'), kdf: { ...kdf, N: 16 } });
+    await expect(keystore.load('legacy', PASSPHRASE)).rejects.toThrow('低于最低强度');
+  });
+
+  it('删除条目并拒绝不安全的条目名称', async () => {
+    const keystore = new Keystore({ directory, logLevel: 'error' });
+    await keystore.save('alice', await createEntry(), PASSPHRASE);
+
+    expect(await keystore.delete('alice')).toBe(true);
+    expect(await keystore.has('alice')).toBe(false);
+    expect(await keystore.delete('alice')).toBe(false);
+    await expect(keystore.load('../alice', PASSPHRASE)).rejects.toThrow('无效的密钥库条目名称');
+  });
+});
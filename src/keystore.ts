@@ -0,0 +1,373 @@
+/**
+ * ANP密钥库模块
+ * 使用口令加密（scrypt/PBKDF2 + AES-256-GCM）在磁盘上保存智能体身份
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { DIDDocument, DIDDocumentVersion, KeyBundle, KeyType } from './anp-key-generator';
+
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2Async = promisify(crypto.pbkdf2);
+
+// 口令派生的默认参数，同时是读取文件时接受的最低强度
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const PBKDF2_ITERATIONS = 600000;
+const PBKDF2_DIGESTS = ['sha256', 'sha512'];
+
+// 读取文件时接受的参数上限，避免篡改的参数使口令派生耗尽内存或CPU
+const SCRYPT_MAX_N = 2 ** 20;
+const SCRYPT_MAX_R = 16;
+const SCRYPT_MAX_P = 16;
+const PBKDF2_MAX_ITERATIONS = 10000000;
+
+// 类型定义
+export interface KeystoreOptions {
+  /** 密钥库目录 */
+  directory?: string;
+  /** 口令派生算法 */
+  kdf?: 'scrypt' | 'pbkdf2';
+  /** 日志级别 */
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export interface KeystoreEntry {
+  did: string;
+  keyType: KeyType;
+  /** PKCS#8 PEM私钥 */
+  privateKey: string;
+  /** DID文档中所有验证方法的私钥 */
+  keys?: KeyBundle;
+  didDocument: DIDDocument;
+  /** DID文档的历史版本 */
+  documentHistory?: DIDDocumentVersion[];
+  /** DID停用时间，未停用时省略 */
+  deactivatedAt?: string;
+  createdAt: string;
+}
+
+export interface KeystoreEntryInfo {
+  name: string;
+  did: string;
+  keyType: KeyType;
+  createdAt: string;
+}
+
+/** 在自动配置中打开或创建密钥库条目 */
+export interface KeystoreIdentity {
+  keystore: Keystore;
+  /** 条目名称 */
+  name: string;
+  passphrase: string;
+  /** 条目不存在时是否保存新生成的身份，默认true */
+  createIfMissing?: boolean;
+}
+
+interface KdfParams {
+  name: 'scrypt' | 'pbkdf2';
+  salt: string;
+  N?: number;
+  r?: number;
+  p?: number;
+  iterations?: number;
+  digest?: string;
+}
+
+// 版本2起口令派生参数也作为附加认证数据
+interface KeystoreFile {
+  version: 1 | 2;
+  name: string;
+  did: string;
+  keyType: KeyType;
+  createdAt: string;
+  kdf: KdfParams;
+  cipher: {
+    name: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+    ciphertext: string;
+  };
+}
+
+// 私密字段，仅以加密形式落盘
+interface SecretPayload {
+  privateKey: string;
+  keys?: KeyBundle;
+  didDocument: DIDDocument;
+  documentHistory?: DIDDocumentVersion[];
+  deactivatedAt?: string;
+}
+
+/**
+ * 加密密钥库类
+ */
+export class Keystore {
+  private options: Required<KeystoreOptions>;
+
+  constructor(options: KeystoreOptions = {}) {
+    this.options = {
+      directory: path.join(process.cwd(), '.anp-keystore'),
+      kdf: 'scrypt',
+      logLevel: 'info',
+      ...options
+    };
+  }
+
+  /**
+   * 加密保存条目，同名条目会被覆盖
+   */
+  async save(name: string, entry: KeystoreEntry, passphrase: string): Promise<void> {
+    this.assertPassphrase(passphrase);
+
+    const kdf = this.createKdfParams();
+    const key = await this.deriveKey(passphrase, kdf);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+
+    // 将元数据和口令派生参数作为附加认证数据，防止明文字段被篡改
+    const header = { name, did: entry.did, keyType: entry.keyType, createdAt: entry.createdAt };
+    cipher.setAAD(this.getAAD(2, header, kdf));
+
+    const payload: SecretPayload = {
+      privateKey: entry.privateKey,
+      keys: entry.keys,
+      didDocument: entry.didDocument,
+      documentHistory: entry.documentHistory,
+      deactivatedAt: entry.deactivatedAt
+    };
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+
+    const file: KeystoreFile = {
+      version: 2,
+      ...header,
+      kdf,
+      cipher: {
+        name: 'aes-256-gcm',
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        ciphertext: ciphertext.toString('base64')
+      }
+    };
+
+    await fs.promises.mkdir(this.options.directory, { recursive: true, mode: 0o700 });
+    const filePath = this.getFilePath(name);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tempPath, filePath);
+
+    this.log('info', `🔐 已保存密钥库条目: ${name} (${entry.did})`);
+  }
+
+  /**
+   * 解密读取条目
+   */
+  async load(name: string, passphrase: string): Promise<KeystoreEntry> {
+    const file = await this.readFile(name);
+    this.assertKdfParams(name, file.kdf);
+    const key = await this.deriveKey(passphrase, file.kdf);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.cipher.iv, 'base64'));
+    const header = { name: file.name, did: file.did, keyType: file.keyType, createdAt: file.createdAt };
+    decipher.setAAD(this.getAAD(file.version, header, file.kdf));
+    decipher.setAuthTag(Buffer.from(file.cipher.tag, 'base64'));
+
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.cipher.ciphertext, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch (error) {
+      throw new Error(`无法解密密钥库条目 ${name}：口令错误或文件已损坏`);
+    }
+
+    const payload: SecretPayload = JSON.parse(plaintext);
+    this.log('debug', `已读取密钥库条目: ${name}`);
+
+    return {
+      did: file.did,
+      keyType: file.keyType,
+      privateKey: payload.privateKey,
+      keys: payload.keys,
+      didDocument: payload.didDocument,
+      documentHistory: payload.documentHistory,
+      deactivatedAt: payload.deactivatedAt,
+      createdAt: file.createdAt
+    };
+  }
+
+  /**
+   * 列出所有条目（不需要口令，不包含私密字段）
+   */
+  async list(): Promise<KeystoreEntryInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.options.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: KeystoreEntryInfo[] = [];
+    for (const fileName of files.filter(f => f.endsWith('.json')).sort()) {
+      try {
+        const file = await this.readFile(fileName.slice(0, -'.json'.length));
+        entries.push({ name: file.name, did: file.did, keyType: file.keyType, createdAt: file.createdAt });
+      } catch (error) {
+        this.log('warn', `⚠️ 跳过无法读取的密钥库文件 ${fileName}: ${error}`);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 删除条目，返回条目是否存在
+   */
+  async delete(name: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getFilePath(name));
+      this.log('info', `🗑️ 已删除密钥库条目: ${name}`);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 检查条目是否存在
+   */
+  async has(name: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.getFilePath(name));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 读取并校验密钥库文件
+   */
+  private async readFile(name: string): Promise<KeystoreFile> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.getFilePath(name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`密钥库条目不存在: ${name}`);
+      }
+      throw error;
+    }
+
+    const file = JSON.parse(content) as KeystoreFile;
+    if ((file.version !== 1 && file.version !== 2) || !file.kdf || !file.cipher || file.cipher.name !== 'aes-256-gcm') {
+      throw new Error(`不支持的密钥库文件格式: ${name}`);
+    }
+    return file;
+  }
+
+  /**
+   * 生成口令派生参数
+   */
+  private createKdfParams(): KdfParams {
+    const salt = crypto.randomBytes(16).toString('base64');
+    if (this.options.kdf === 'pbkdf2') {
+      return { name: 'pbkdf2', salt, iterations: PBKDF2_ITERATIONS, digest: 'sha256' };
+    }
+    return { name: 'scrypt', salt, N: SCRYPT_N, r: SCRYPT_R, p: 1 };
+  }
+
+  /**
+   * 附加认证数据：元数据，版本2起包含口令派生参数
+   */
+  private getAAD(version: KeystoreFile['version'], header: Omit<KeystoreFile, 'version' | 'kdf' | 'cipher'>, kdf: KdfParams): Buffer {
+    return Buffer.from(JSON.stringify(version === 1 ? header : { ...header, kdf }), 'utf8');
+  }
+
+  /**
+   * 拒绝低于默认强度或超出上限的口令派生参数
+   * 参数在认证解密之前使用（版本1文件的参数更是未经认证），可能被篡改
+   */
+  private assertKdfParams(name: string, kdf: KdfParams): void {
+    const strong = kdf.name === 'scrypt'
+      ? Number.isInteger(kdf.N) && kdf.N! >= SCRYPT_N && Number.isInteger(kdf.r) && kdf.r! >= SCRYPT_R
+        && Number.isInteger(kdf.p) && kdf.p! >= 1
+      : kdf.name === 'pbkdf2'
+        && Number.isInteger(kdf.iterations) && kdf.iterations! >= PBKDF2_ITERATIONS
+        && PBKDF2_DIGESTS.includes(kdf.digest!);
+    if (!strong) {
+      throw new Error(`密钥库条目 ${name} 的口令派生参数低于最低强度`);
+    }
+
+    const bounded = kdf.name === 'scrypt'
+      ? kdf.N! <= SCRYPT_MAX_N && kdf.r! <= SCRYPT_MAX_R && kdf.p! <= SCRYPT_MAX_P
+      : kdf.iterations! <= PBKDF2_MAX_ITERATIONS;
+    if (!bounded) {
+      throw new Error(`密钥库条目 ${name} 的口令派生参数超出允许范围`);
+    }
+  }
+
+  /**
+   * 从口令派生256位加密密钥
+   */
+  private async deriveKey(passphrase: string, kdf: KdfParams): Promise<Buffer> {
+    const salt = Buffer.from(kdf.salt, 'base64');
+
+    if (kdf.name === 'pbkdf2') {
+      return pbkdf2Async(passphrase, salt, kdf.iterations!, 32, kdf.digest!);
+    }
+
+    if (kdf.name === 'scrypt') {
+      const N = kdf.N!;
+      const r = kdf.r!;
+      return scryptAsync(passphrase, salt, 32, { N, r, p: kdf.p!, maxmem: 256 * N * r });
+    }
+
+    throw new Error(`不支持的口令派生算法: ${kdf.name}`);
+  }
+
+  /**
+   * 获取条目文件路径，条目名称仅允许安全字符
+   */
+  private getFilePath(name: string): string {
+    if (!/^[A-Za-z0-9._-]+$/.test(name) || name.startsWith('.')) {
+      throw new Error(`无效的密钥库条目名称: ${name}`);
+    }
+    return path.join(this.options.directory, `${name}.json`);
+  }
+
+  private assertPassphrase(passphrase: string): void {
+    if (!passphrase) {
+      throw new Error('密钥库口令不能为空');
+    }
+  }
+
+  /**
+   * 日志输出
+   */
+  private log(level: string, message: string): void {
+    const levels = ['debug', 'info', 'warn', 'error'];
+    const currentLevel = levels.indexOf(this.options.logLevel);
+    const messageLevel = levels.indexOf(level);
+
+    if (messageLevel >= currentLevel) {
+      console.log(`[${new Date().toISOString()}] [KEYSTORE] [${level.toUpperCase()}] ${message}`);
+    }
+  }
+}
+
+// 导出主要类和接口
+export { Keystore as default };
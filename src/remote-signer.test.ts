@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ed25519 from '@noble/ed25519';
+import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import { exportPrivateKey } from './key-format';
+import { RemoteSigner, SignerServer } from './remote-signer';
+import { InMemorySigner } from './signer';
+
+const generator = new ANPKeyGenerator('example.com');
+const TOKEN = 'test-signer-token';
+const PORT = 4471;
+
+const createSigner = async () => {
+  const { privateKey } = await generator.generateEd25519KeyPair();
+  return new InMemorySigner(exportPrivateKey(privateKey, KeyType.ED25519));
+};
+
+describe('SignerServer / RemoteSigner', () => {
+  const servers: SignerServer[] = [];
+  const signers: RemoteSigner[] = [];
+
+  const startServer = async (endpoint: string | number, token?: string) => {
+    const signer = await createSigner();
+    const server = new SignerServer([signer], { token, logLevel: 'error' });
+    servers.push(server);
+    await server.listen(endpoint);
+    return signer;
+  };
+
+  const connect = async (...args: Parameters<typeof RemoteSigner.connect>) => {
+    const signer = await RemoteSigner.connect(...args);
+    signers.push(signer);
+    return signer;
+  };
+
+  afterEach(async () => {
+    signers.splice(0).forEach(signer => signer.close());
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  it('未配置token时拒绝监听TCP端口', async () => {
+    const server = new SignerServer([await createSigner()], { logLevel: 'error' });
+    await expect(server.listen(PORT)).rejects.toThrow('必须配置token');
+  });
+
+  it('TCP连接使用正确的token后可以签名', async () => {
+    const local = await startServer(PORT, TOKEN);
+    const remote = await connect(PORT, { token: TOKEN });
+    const data = Buffer.from('hello');
+
+    expect(Buffer.from(await remote.getPublicKey())).toEqual(Buffer.from(await local.getPublicKey()));
+    expect(await ed25519.verify(await remote.sign(data), data, await remote.getPublicKey())).toBe(true);
+  });
+
+  it('TCP连接缺少token或token错误时拒绝', async () => {
+    await startServer(PORT, TOKEN);
+
+    await expect(RemoteSigner.connect(PORT)).rejects.toThrow('连接未认证');
+    await expect(RemoteSigner.connect(PORT, { token: 'wrong' })).rejects.toThrow('认证失败');
+  });
+
+  it('未配置token的Unix套接字无需认证，套接字文件仅当前用户可访问', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anp-signer-'));
+    const socketPath = path.join(dir, 'signer.sock');
+    await startServer(socketPath);
+    const remote = await connect(socketPath);
+    const data = Buffer.from('hello');
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+    expect(await ed25519.verify(await remote.sign(data), data, await remote.getPublicKey())).toBe(true);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('套接字文件以受限的umask创建，不受进程umask影响，监听后恢复进程umask', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'anp-signer-'));
+    const socketPath = path.join(dir, 'signer.sock');
+    const originalUmask = process.umask(0o000);
+    try {
+      await startServer(socketPath);
+
+      expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600);
+      expect(process.umask(originalUmask)).toBe(0o000);
+    } finally {
+      process.umask(originalUmask);
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
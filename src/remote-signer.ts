@@ -0,0 +1,489 @@
+/**
+ * ANP远程签名器模块
+ * 私钥保存在独立进程中，智能体通过Unix套接字、本机TCP端口或子进程标准输入输出请求签名
+ *
+ * 协议为逐行JSON：
+ *   {"id":1,"method":"auth","token":"..."}             -> {"id":1,"result":true}
+ *   {"id":2,"method":"keys"}                           -> {"id":2,"result":[{keyId,keyType,publicKey}]}
+ *   {"id":3,"method":"sign","keyId":"...","data":"..."} -> {"id":3,"result":"<签名>"}
+ * 二进制数据均为base64url编码，失败时返回 {"id":n,"error":"..."}。
+ * 本机上任何进程都能连接TCP端口，因此TCP监听必须配置token，连接须先完成auth才能查询密钥和签名；
+ * 配置token后Unix套接字连接同样需要认证，标准输入输出只连接父进程，不需要认证。
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as readline from 'readline';
+import { Buffer } from 'buffer';
+import { ChildProcess, spawn } from 'child_process';
+import { KeyType } from './anp-key-generator';
+import { getJWSAlgorithm, JWSAlgorithm } from './jws';
+import { Signer } from './signer';
+
+// 类型定义
+export interface SignerServerOptions {
+  /** TCP监听地址，仅在使用端口时生效 */
+  host?: string;
+  /** 连接认证令牌（共享密钥），监听TCP端口时必须配置，建议使用crypto.randomBytes(32)生成 */
+  token?: string | null;
+  /** 日志级别 */
+  logLevel?: 'debug' | 'info' | 'warn' | 'error';
+}
+
+export interface RemoteSignerOptions {
+  /** 使用的密钥标识，签名进程只持有一个密钥时可省略 */
+  keyId?: string;
+  /** 连接认证令牌，与SignerServer的token一致 */
+  token?: string;
+  /** 单次请求超时时间（毫秒） */
+  timeout?: number;
+}
+
+export interface SpawnSignerOptions extends RemoteSignerOptions {
+  /** 子进程环境变量，可用于传递密钥库口令等 */
+  env?: NodeJS.ProcessEnv;
+}
+
+interface SignerRequest {
+  id: number;
+  method: 'auth' | 'keys' | 'sign';
+  token?: string;
+  keyId?: string;
+  data?: string;
+}
+
+interface SignerSession {
+  authenticated: boolean;
+  /** 认证失败时断开连接 */
+  onAuthFailure?: () => void;
+}
+
+interface SignerResponse {
+  id: number | null;
+  result?: any;
+  error?: string;
+}
+
+interface SignerKeyInfo {
+  keyId: string;
+  keyType: KeyType;
+  /** base64url编码的公钥 */
+  publicKey: string;
+}
+
+/**
+ * 签名服务类，运行在持有私钥的进程中
+ */
+export class SignerServer {
+  private signers: Map<string, Signer> = new Map();
+  private options: Required<SignerServerOptions>;
+  private server: net.Server | null = null;
+  private sockets: Set<net.Socket> = new Set();
+  private logToStderr: boolean = false;
+
+  constructor(signers: Signer[], options: SignerServerOptions = {}) {
+    this.options = {
+      host: '127.0.0.1',
+      token: null,
+      logLevel: 'info',
+      ...options
+    };
+
+    for (const signer of signers) {
+      if (this.signers.has(signer.keyId)) {
+        throw new Error(`重复的密钥标识: ${signer.keyId}`);
+      }
+      this.signers.set(signer.keyId, signer);
+    }
+  }
+
+  /**
+   * 在一对流上提供签名服务（调用方负责确认对端可信，不做连接认证）
+   */
+  serve(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): void {
+    this.serveSession(input, output, { authenticated: true });
+  }
+
+  /**
+   * 通过标准输入输出提供服务，供RemoteSigner.spawn启动的子进程使用
+   * 标准输出用于协议，日志改写到标准错误
+   */
+  serveStdio(): void {
+    this.logToStderr = true;
+    this.serve(process.stdin, process.stdout);
+  }
+
+  /**
+   * 监听Unix套接字路径或本机TCP端口（TCP端口必须配置token）
+   */
+  async listen(endpoint: string | number): Promise<void> {
+    if (this.server) {
+      throw new Error('签名服务已在监听');
+    }
+    if (typeof endpoint === 'number' && !this.options.token) {
+      throw new Error('监听TCP端口必须配置token，否则本机任何进程都能请求签名');
+    }
+
+    if (typeof endpoint === 'string') {
+      this.removeStaleSocket(endpoint);
+    }
+
+    const server = net.createServer(socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      socket.on('error', error => this.log('warn', `签名连接错误: ${error.message}`));
+      this.serveSession(socket, socket, {
+        authenticated: !this.options.token,
+        onAuthFailure: () => socket.end()
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      const onListening = () => {
+        server.off('error', reject);
+        resolve();
+      };
+      if (typeof endpoint === 'string') {
+        // 套接字文件在绑定时以umask创建，只允许当前用户访问；绑定同步完成，随即恢复umask
+        const previousUmask = process.umask(0o177);
+        try {
+          server.listen(endpoint, onListening);
+        } finally {
+          process.umask(previousUmask);
+        }
+      } else {
+        server.listen(endpoint, this.options.host, onListening);
+      }
+    });
+
+    this.server = server;
+    this.log('info', `🔑 签名服务已启动: ${endpoint}（${this.signers.size}个密钥）`);
+  }
+
+  /**
+   * 停止监听并断开所有连接
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    this.log('info', '🛑 签名服务已停止');
+  }
+
+  /**
+   * 在一对流上处理请求，会话未认证时只接受auth请求
+   */
+  private serveSession(input: NodeJS.ReadableStream, output: NodeJS.WritableStream, session: SignerSession): void {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', line => {
+      if (!line.trim()) {
+        return;
+      }
+      this.handleLine(line, session).then(response => {
+        output.write(`${JSON.stringify(response)}\n`);
+        if (!session.authenticated && response.error !== undefined) {
+          session.onAuthFailure?.();
+        }
+      });
+    });
+  }
+
+  /**
+   * 处理一行请求
+   */
+  private async handleLine(line: string, session: SignerSession): Promise<SignerResponse> {
+    let request: SignerRequest;
+    try {
+      request = JSON.parse(line);
+    } catch (error) {
+      return { id: null, error: '无效的请求格式' };
+    }
+
+    try {
+      return { id: request.id, result: await this.handleRequest(request, session) };
+    } catch (error) {
+      this.log('warn', `签名请求失败: ${error instanceof Error ? error.message : error}`);
+      return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async handleRequest(request: SignerRequest, session: SignerSession): Promise<any> {
+    if (request.method === 'auth') {
+      // 同步设置认证状态，保证同一连接上紧随其后的请求看到结果
+      if (!this.options.token || !this.checkToken(request.token)) {
+        throw new Error('认证失败');
+      }
+      session.authenticated = true;
+      return true;
+    }
+    if (!session.authenticated) {
+      throw new Error('连接未认证');
+    }
+
+    switch (request.method) {
+      case 'keys': {
+        const keys: SignerKeyInfo[] = [];
+        for (const signer of this.signers.values()) {
+          keys.push({
+            keyId: signer.keyId,
+            keyType: signer.keyType,
+            publicKey: Buffer.from(await signer.getPublicKey()).toString('base64url')
+          });
+        }
+        return keys;
+      }
+
+      case 'sign': {
+        const signer = request.keyId !== undefined ? this.signers.get(request.keyId) : undefined;
+        if (!signer) {
+          throw new Error(`未知的密钥标识: ${request.keyId}`);
+        }
+        if (typeof request.data !== 'string') {
+          throw new Error('缺少待签名数据');
+        }
+        const signature = await signer.sign(new Uint8Array(Buffer.from(request.data, 'base64url')));
+        this.log('debug', `✍️ 已签名: ${signer.keyId}`);
+        return Buffer.from(signature).toString('base64url');
+      }
+
+      default:
+        throw new Error(`不支持的方法: ${(request as any).method}`);
+    }
+  }
+
+  /**
+   * 常量时间比较认证令牌
+   */
+  private checkToken(token: unknown): boolean {
+    if (typeof token !== 'string') {
+      return false;
+    }
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(token), digest(this.options.token!));
+  }
+
+  /**
+   * 删除上次运行遗留的套接字文件（只删除套接字，不会误删普通文件）
+   */
+  private removeStaleSocket(path: string): void {
+    try {
+      if (fs.statSync(path).isSocket()) {
+        fs.unlinkSync(path);
+      }
+    } catch (error) {
+      // 文件不存在
+    }
+  }
+
+  /**
+   * 日志输出
+   */
+  private log(level: string, message: string): void {
+    const levels = ['debug', 'info', 'warn', 'error'];
+    const currentLevel = levels.indexOf(this.options.logLevel);
+    const messageLevel = levels.indexOf(level);
+
+    if (messageLevel >= currentLevel) {
+      const line = `[${new Date().toISOString()}] [SIGNER-SERVER] [${level.toUpperCase()}] ${message}`;
+      if (this.logToStderr) {
+        console.error(line);
+      } else {
+        console.log(line);
+      }
+    }
+  }
+}
+
+/**
+ * 请求/响应连接，按id匹配响应
+ */
+class SignerConnection {
+  private nextId: number = 1;
+  private pending: Map<number, { resolve: (value: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = new Map();
+  private closedError: Error | null = null;
+
+  constructor(
+    input: NodeJS.ReadableStream,
+    private output: NodeJS.WritableStream,
+    private timeout: number,
+    private dispose: () => void
+  ) {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', line => this.handleLine(line));
+  }
+
+  request(method: SignerRequest['method'], params: Omit<SignerRequest, 'id' | 'method'> = {}): Promise<any> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`远程签名器请求超时（${this.timeout}ms）`));
+      }, this.timeout);
+      this.pending.set(id, { resolve, reject, timer });
+      this.output.write(`${JSON.stringify({ id, method, ...params })}\n`);
+    });
+  }
+
+  /**
+   * 连接断开：拒绝所有未完成的请求
+   */
+  fail(error: Error): void {
+    if (this.closedError) {
+      return;
+    }
+    this.closedError = error;
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(error);
+    }
+    this.pending.clear();
+  }
+
+  close(): void {
+    this.fail(new Error('远程签名器连接已关闭'));
+    this.dispose();
+  }
+
+  private handleLine(line: string): void {
+    let response: SignerResponse;
+    try {
+      response = JSON.parse(line);
+    } catch (error) {
+      return;
+    }
+
+    const entry = response.id !== null ? this.pending.get(response.id) : undefined;
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(response.id!);
+    clearTimeout(entry.timer);
+
+    if (response.error !== undefined) {
+      entry.reject(new Error(`远程签名器错误: ${response.error}`));
+    } else {
+      entry.resolve(response.result);
+    }
+  }
+}
+
+/**
+ * 远程签名器：私钥留在签名进程中，本进程只拿到签名结果
+ */
+export class RemoteSigner implements Signer {
+  readonly keyId: string;
+  readonly keyType: KeyType;
+  readonly algorithm: JWSAlgorithm;
+  private publicKey: Uint8Array;
+  private connection: SignerConnection;
+
+  private constructor(connection: SignerConnection, key: SignerKeyInfo) {
+    this.connection = connection;
+    this.keyId = key.keyId;
+    this.keyType = key.keyType;
+    this.algorithm = getJWSAlgorithm(key.keyType);
+    this.publicKey = new Uint8Array(Buffer.from(key.publicKey, 'base64url'));
+  }
+
+  /**
+   * 连接到SignerServer监听的Unix套接字路径或本机TCP端口（服务端配置了token时须提供options.token）
+   */
+  static async connect(endpoint: string | number, options: RemoteSignerOptions = {}): Promise<RemoteSigner> {
+    const socket = typeof endpoint === 'string'
+      ? net.createConnection(endpoint)
+      : net.createConnection(endpoint, '127.0.0.1');
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', () => {
+        socket.off('error', reject);
+        resolve();
+      });
+      socket.once('error', reject);
+    });
+
+    const connection = new SignerConnection(socket, socket, options.timeout || 10000, () => socket.destroy());
+    socket.on('error', error => connection.fail(error));
+    socket.on('close', () => connection.fail(new Error('远程签名器连接已断开')));
+
+    return RemoteSigner.open(connection, options);
+  }
+
+  /**
+   * 启动签名子进程，通过其标准输入输出通信（子进程中调用SignerServer.serveStdio）
+   */
+  static async spawn(command: string, args: string[] = [], options: SpawnSignerOptions = {}): Promise<RemoteSigner> {
+    const child: ChildProcess = spawn(command, args, {
+      stdio: ['pipe', 'pipe', 'inherit'],
+      env: options.env || process.env
+    });
+
+    const connection = new SignerConnection(child.stdout!, child.stdin!, options.timeout || 10000, () => {
+      child.stdin!.end();
+      child.kill();
+    });
+    child.on('error', error => connection.fail(error));
+    child.on('exit', code => connection.fail(new Error(`签名子进程已退出（${code}）`)));
+    child.stdin!.on('error', error => connection.fail(error));
+
+    return RemoteSigner.open(connection, options);
+  }
+
+  /**
+   * 查询签名进程持有的密钥并选定一个
+   */
+  private static async open(connection: SignerConnection, options: RemoteSignerOptions): Promise<RemoteSigner> {
+    try {
+      if (options.token !== undefined) {
+        await connection.request('auth', { token: options.token });
+      }
+      const keys: SignerKeyInfo[] = await connection.request('keys');
+      const key = options.keyId !== undefined
+        ? keys.find(k => k.keyId === options.keyId)
+        : keys.length === 1 ? keys[0] : undefined;
+
+      if (!key) {
+        throw new Error(options.keyId !== undefined
+          ? `远程签名器中没有密钥: ${options.keyId}`
+          : `远程签名器持有${keys.length}个密钥，请指定keyId`);
+      }
+      return new RemoteSigner(connection, key);
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    return this.publicKey;
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    const signature: string = await this.connection.request('sign', {
+      keyId: this.keyId,
+      data: Buffer.from(data).toString('base64url')
+    });
+    return new Uint8Array(Buffer.from(signature, 'base64url'));
+  }
+
+  /**
+   * 断开连接（子进程模式下同时结束子进程）
+   */
+  close(): void {
+    this.connection.close();
+  }
+}
+
+export { RemoteSigner as default };
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { createHash } from 'crypto';
+import * as secp256k1 from '@noble/secp256k1';
+import { ANPKeyGenerator } from './anp-key-generator';
+import {
+  encodeSecp256k1Signature,
+  parseSecp256k1Signature,
+  recoverSecp256k1PublicKey,
+  signSecp256k1Hash,
+  verifySecp256k1Hash
+} from './secp256k1-signature';
+
+const generator = new ANPKeyGenerator('example.com');
+const messageHash = createHash('sha256').update('hello').digest();
+
+describe('secp256k1签名格式', () => {
+  it('默认输出DER，与@noble/secp256k1 sign()的默认输出逐字节一致', async () => {
+    const { privateKey } = await generator.generateSecp256k1KeyPair();
+
+    const signature = await signSecp256k1Hash(messageHash, privateKey);
+
+    expect(parseSecp256k1Signature(signature).format).toBe('der');
+    expect(Buffer.from(signature)).toEqual(Buffer.from(await secp256k1.sign(messageHash, privateKey)));
+  });
+
+  it('ANPKeyGenerator.signSecp256k1默认输出DER', async () => {
+    const { privateKey, publicKey } = await generator.generateSecp256k1KeyPair();
+    const data = { nonce: 'n', timestamp: 't', service: 's', did: 'd' };
+
+    const signature = await generator.signSecp256k1(privateKey, data);
+
+    expect(Buffer.from(signature, 'base64url')[0]).toBe(0x30);
+    expect(await generator.verifySecp256k1(publicKey, signature, data)).toBe(true);
+  });
+
+  it.each(['compact', 'der', 'recoverable'] as const)('%s 格式签名后可以识别并验证', async format => {
+    const { privateKey, publicKey } = await generator.generateSecp256k1KeyPair();
+
+    const signature = await signSecp256k1Hash(messageHash, privateKey, format);
+
+    expect(parseSecp256k1Signature(signature).format).toBe(format);
+    expect(verifySecp256k1Hash(signature, messageHash, publicKey)).toBe(true);
+    expect(verifySecp256k1Hash(signature, createHash('sha256').update('other').digest(), publicKey)).toBe(false);
+  });
+
+  it('从可恢复签名恢复公钥', async () => {
+    const { privateKey, publicKey } = await generator.generateSecp256k1KeyPair();
+    const signature = await signSecp256k1Hash(messageHash, privateKey, 'recoverable');
+
+    expect(Buffer.from(recoverSecp256k1PublicKey(signature, messageHash)))
+      .toEqual(Buffer.from(secp256k1.Point.fromHex(publicKey).toRawBytes(false)));
+    const compact = await signSecp256k1Hash(messageHash, privateKey, 'compact');
+    expect(() => recoverSecp256k1PublicKey(compact, messageHash)).toThrow();
+  });
+
+  it('high-S签名被规范化为low-S', async () => {
+    const { privateKey, publicKey } = await generator.generateSecp256k1KeyPair();
+    const low = secp256k1.Signature.fromCompact(await signSecp256k1Hash(messageHash, privateKey, 'compact'));
+    const high = new secp256k1.Signature(low.r, secp256k1.CURVE.n - low.s);
+
+    expect(high.hasHighS()).toBe(true);
+    expect(Buffer.from(encodeSecp256k1Signature(high, 'compact'))).toEqual(Buffer.from(low.toCompactRawBytes()));
+    expect(verifySecp256k1Hash(high.toCompactRawBytes(), messageHash, publicKey)).toBe(true);
+  });
+});
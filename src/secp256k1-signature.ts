@@ -0,0 +1,129 @@
+/**
+ * ANP secp256k1签名格式模块
+ * 支持紧凑（r||s）、DER和可恢复（r||s||v）三种签名编码，签名和验证均采用low-S规范形式
+ */
+
+import { Buffer } from 'buffer';
+import * as secp256k1 from '@noble/secp256k1';
+
+// 支持的签名编码
+export type Secp256k1SignatureFormat = 'compact' | 'der' | 'recoverable';
+
+// 解析结果接口
+export interface ParsedSecp256k1Signature {
+  /** low-S规范化后的签名 */
+  signature: secp256k1.Signature;
+  /** 恢复标识（0或1），仅可恢复格式提供 */
+  recovery?: number;
+  format: Secp256k1SignatureFormat;
+}
+
+/**
+ * 对32字节消息哈希签名，按指定格式编码
+ * 默认DER，与@noble/secp256k1 sign()的默认输出一致（此前版本的线上格式），紧凑和可恢复格式需显式指定
+ */
+export async function signSecp256k1Hash(
+  messageHash: Uint8Array,
+  privateKey: Uint8Array,
+  format: Secp256k1SignatureFormat = 'der'
+): Promise<Uint8Array> {
+  // canonical: true 保证输出low-S签名，并同步调整恢复标识
+  const [compact, recovery] = await secp256k1.sign(messageHash, privateKey, { der: false, recovered: true, canonical: true });
+  return encodeSecp256k1Signature(secp256k1.Signature.fromCompact(compact), format, recovery);
+}
+
+/**
+ * 编码签名
+ */
+export function encodeSecp256k1Signature(
+  signature: secp256k1.Signature,
+  format: Secp256k1SignatureFormat,
+  recovery?: number
+): Uint8Array {
+  const normalized = signature.hasHighS() ? signature.normalizeS() : signature;
+
+  switch (format) {
+    case 'compact':
+      return normalized.toCompactRawBytes();
+    case 'der':
+      return normalized.toDERRawBytes();
+    case 'recoverable':
+      if (recovery === undefined) {
+        throw new Error('可恢复签名需要恢复标识');
+      }
+      // normalizeS翻转了s，对应的恢复标识也需翻转
+      return Buffer.concat([
+        Buffer.from(normalized.toCompactRawBytes()),
+        Buffer.from([normalized === signature ? recovery : recovery ^ 1])
+      ]);
+    default:
+      throw new Error(`不支持的签名格式: ${format}`);
+  }
+}
+
+/**
+ * 按长度和结构识别签名格式并解析，high-S签名会被规范化为low-S
+ */
+export function parseSecp256k1Signature(bytes: Uint8Array): ParsedSecp256k1Signature {
+  let signature: secp256k1.Signature;
+  let recovery: number | undefined;
+  let format: Secp256k1SignatureFormat;
+
+  if (bytes.length === 64) {
+    signature = secp256k1.Signature.fromCompact(bytes);
+    format = 'compact';
+  } else if (bytes.length === 65) {
+    signature = secp256k1.Signature.fromCompact(bytes.slice(0, 64));
+    // 兼容以太坊风格的27/28
+    recovery = bytes[64] >= 27 ? bytes[64] - 27 : bytes[64];
+    if (recovery !== 0 && recovery !== 1) {
+      throw new Error(`无效的恢复标识: ${bytes[64]}`);
+    }
+    format = 'recoverable';
+  } else if (bytes[0] === 0x30) {
+    signature = secp256k1.Signature.fromDER(bytes);
+    format = 'der';
+  } else {
+    throw new Error(`无法识别的secp256k1签名格式（${bytes.length}字节）`);
+  }
+
+  signature.assertValidity();
+  if (signature.hasHighS()) {
+    signature = signature.normalizeS();
+    if (recovery !== undefined) {
+      recovery ^= 1;
+    }
+  }
+
+  return { signature, recovery, format };
+}
+
+/**
+ * 验证任意格式的签名；可恢复签名还会校验恢复出的公钥与给定公钥一致
+ */
+export function verifySecp256k1Hash(signatureBytes: Uint8Array, messageHash: Uint8Array, publicKey: Uint8Array): boolean {
+  try {
+    const { signature, recovery } = parseSecp256k1Signature(signatureBytes);
+    if (!secp256k1.verify(signature, messageHash, publicKey)) {
+      return false;
+    }
+    if (recovery !== undefined) {
+      const recovered = secp256k1.recoverPublicKey(messageHash, signature, recovery);
+      return Buffer.from(recovered).equals(Buffer.from(secp256k1.Point.fromHex(publicKey).toRawBytes(false)));
+    }
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 从可恢复签名中恢复未压缩公钥
+ */
+export function recoverSecp256k1PublicKey(signatureBytes: Uint8Array, messageHash: Uint8Array): Uint8Array {
+  const { signature, recovery } = parseSecp256k1Signature(signatureBytes);
+  if (recovery === undefined) {
+    throw new Error('只有可恢复格式的签名可以恢复公钥');
+  }
+  return secp256k1.recoverPublicKey(messageHash, signature, recovery);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@jest/globals';
+import { createHash } from 'crypto';
+import * as ed25519 from '@noble/ed25519';
+import { ANPKeyGenerator, KeyType } from './anp-key-generator';
+import { exportPrivateKey } from './key-format';
+import { verifySecp256k1Hash } from './secp256k1-signature';
+import { InMemorySigner, isSigner, toSigner } from './signer';
+
+const generator = new ANPKeyGenerator('example.com');
+
+describe('InMemorySigner', () => {
+  it('Ed25519直接对数据签名', async () => {
+    const { privateKey, publicKey } = await generator.generateEd25519KeyPair();
+    const signer = new InMemorySigner(exportPrivateKey(privateKey, KeyType.ED25519), 'key-9');
+    const data = Buffer.from('hello');
+
+    expect(signer.keyId).toBe('key-9');
+    expect(signer.algorithm).toBe('EdDSA');
+    expect(Buffer.from(await signer.getPublicKey())).toEqual(Buffer.from(publicKey));
+    expect(await ed25519.verify(await signer.sign(data), data, publicKey)).toBe(true);
+  });
+
+  it('secp256k1对SHA-256摘要签名并输出64字节r||s', async () => {
+    const { privateKey, publicKey } = await generator.generateSecp256k1KeyPair();
+    const signer = new InMemorySigner(exportPrivateKey(privateKey, KeyType.SECP256K1));
+    const data = Buffer.from('hello');
+    const signature = await signer.sign(data);
+
+    expect(signer.algorithm).toBe('ES256K');
+    expect(signature.length).toBe(64);
+    expect(verifySecp256k1Hash(signature, createHash('sha256').update(data).digest(), publicKey)).toBe(true);
+  });
+
+  it('不接受X25519密钥', async () => {
+    const { privateKey } = await generator.generateX25519KeyPair();
+    expect(() => new InMemorySigner(exportPrivateKey(privateKey, KeyType.X25519))).toThrow();
+  });
+
+  it('toSigner包装私钥，签名器原样返回', async () => {
+    const { privateKey } = await generator.generateEd25519KeyPair();
+    const signer = toSigner(exportPrivateKey(privateKey, KeyType.ED25519));
+
+    expect(isSigner(signer)).toBe(true);
+    expect(toSigner(signer)).toBe(signer);
+    expect(isSigner({ sign: () => null })).toBe(false);
+  });
+});
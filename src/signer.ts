@@ -0,0 +1,90 @@
+/**
+ * ANP签名器模块
+ * 统一的签名接口，私钥既可以保存在本进程内存中，也可以由独立进程持有（见remote-signer）
+ */
+
+import { createHash } from 'crypto';
+import * as ed25519 from '@noble/ed25519';
+import * as secp256k1 from '@noble/secp256k1';
+import { KeyType } from './anp-key-generator';
+import { getJWSAlgorithm, JWSAlgorithm } from './jws';
+import { importPrivateKey } from './key-format';
+import { signSecp256k1Hash } from './secp256k1-signature';
+
+// 未指定时使用的密钥标识
+export const DEFAULT_SIGNER_KEY_ID = 'key-1';
+
+/**
+ * 签名器接口
+ *
+ * 签名语义与JWS算法一致：EdDSA直接对数据签名；ES256K对数据的SHA-256摘要签名，
+ * 输出64字节low-S的r||s。
+ */
+export interface Signer {
+  /** 密钥标识，作为DID文档中验证方法ID的片段 */
+  readonly keyId: string;
+  readonly keyType: KeyType;
+  readonly algorithm: JWSAlgorithm;
+  /** 获取公钥（Ed25519为32字节，secp256k1为33字节压缩格式） */
+  getPublicKey(): Promise<Uint8Array>;
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * 判断对象是否实现了签名器接口
+ */
+export function isSigner(value: unknown): value is Signer {
+  const candidate = value as Signer;
+  return !!candidate && typeof candidate === 'object'
+    && typeof candidate.sign === 'function'
+    && typeof candidate.getPublicKey === 'function'
+    && typeof candidate.keyId === 'string';
+}
+
+/**
+ * 本进程内存中的签名器
+ */
+export class InMemorySigner implements Signer {
+  readonly keyId: string;
+  readonly keyType: KeyType;
+  readonly algorithm: JWSAlgorithm;
+  private privateKey: Uint8Array;
+
+  /**
+   * @param privateKey 私钥（PKCS#8 PEM或JWK，Ed25519或secp256k1）
+   */
+  constructor(privateKey: string, keyId: string = DEFAULT_SIGNER_KEY_ID) {
+    const imported = importPrivateKey(privateKey);
+    if (imported.keyType !== KeyType.ED25519 && imported.keyType !== KeyType.SECP256K1) {
+      throw new Error(`签名器不支持的密钥类型: ${imported.keyType}`);
+    }
+
+    this.keyId = keyId;
+    this.keyType = imported.keyType;
+    this.algorithm = getJWSAlgorithm(imported.keyType);
+    this.privateKey = imported.privateKey;
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    if (this.keyType === KeyType.SECP256K1) {
+      return secp256k1.getPublicKey(this.privateKey, true);
+    }
+    return ed25519.getPublicKey(this.privateKey);
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    if (this.keyType === KeyType.SECP256K1) {
+      return signSecp256k1Hash(createHash('sha256').update(data).digest(), this.privateKey, 'compact');
+    }
+    return ed25519.sign(data, this.privateKey);
+  }
+}
+
+/**
+ * 私钥字符串包装为内存签名器，签名器原样返回
+ */
+export function toSigner(key: string | Signer, keyId?: string): Signer {
+  return typeof key === 'string' ? new InMemorySigner(key, keyId) : key;
+}
+
+export { InMemorySigner as default };
@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import * as crypto from 'crypto';
+import * as https from 'https';
+import { AddressInfo } from 'net';
+import { createTrustedFetch, generateSelfSignedCertificate } from './tls-certificate';
+
+describe('自签名证书', () => {
+  it('生成可被解析且自签名有效的证书', () => {
+    const { cert, key } = generateSelfSignedCertificate({
+      commonName: '192.168.1.10',
+      altNames: ['192.168.1.10', 'localhost', '::1'],
+      validityDays: 30
+    });
+    const certificate = new crypto.X509Certificate(cert);
+
+    expect(certificate.subject).toBe('CN=192.168.1.10');
+    expect(certificate.subjectAltName).toBe('IP Address:192.168.1.10, DNS:localhost, IP Address:0:0:0:0:0:0:0:1');
+    expect(certificate.verify(certificate.publicKey)).toBe(true);
+    expect(certificate.checkPrivateKey(crypto.createPrivateKey(key))).toBe(true);
+
+    const lifetime = Date.parse(certificate.validTo) - Date.parse(certificate.validFrom);
+    expect(lifetime).toBe(30 * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('createTrustedFetch', () => {
+  it('信任指定的自签名证书，全局fetch拒绝同一证书', async () => {
+    const credentials = generateSelfSignedCertificate({ altNames: ['localhost', '127.0.0.1'] });
+    const server = https.createServer(credentials, (req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        res.setHeader('X-Method', req.method || '');
+        res.end(JSON.stringify({ body, contentType: req.headers['content-type'] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `https://127.0.0.1:${(server.address() as AddressInfo).port}/echo`;
+
+    try {
+      const response = await createTrustedFetch(credentials.cert)(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"a":1}'
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-method')).toBe('POST');
+      expect(await response.json()).toEqual({ body: '{"a":1}', contentType: 'application/json' });
+      await expect(fetch(url)).rejects.toThrow();
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
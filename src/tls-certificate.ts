@@ -0,0 +1,219 @@
+/**
+ * ANP TLS证书模块
+ * 为本地开发生成自签名证书（ECDSA P-256），不依赖openssl；并提供信任指定CA证书的fetch
+ */
+
+import * as crypto from 'crypto';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+
+// 与全局fetch兼容的函数类型
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>;
+
+// 类型定义
+export interface TLSCredentials {
+  /** PEM证书（可包含证书链） */
+  cert: string;
+  /** PEM私钥 */
+  key: string;
+}
+
+export interface SelfSignedCertificateOptions {
+  /** 证书主题CN */
+  commonName?: string;
+  /** 主题备用名称：域名或IP地址 */
+  altNames?: string[];
+  /** 有效期（天） */
+  validityDays?: number;
+}
+
+// 证书中使用的OID
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_ECDSA_WITH_SHA256 = '1.2.840.10045.4.3.2';
+const OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+const OID_EXTENDED_KEY_USAGE = '2.5.29.37';
+const OID_SERVER_AUTH = '1.3.6.1.5.5.7.3.1';
+
+/**
+ * 生成自签名证书，仅用于开发环境（客户端需要信任该证书或关闭证书校验）
+ */
+export function generateSelfSignedCertificate(options: SelfSignedCertificateOptions = {}): TLSCredentials {
+  const commonName = options.commonName || 'localhost';
+  const altNames = options.altNames || [commonName];
+  const validityDays = options.validityDays ?? 365;
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const notBefore = new Date(Date.now() - 60 * 1000);
+  const notAfter = new Date(notBefore.getTime() + validityDays * 24 * 60 * 60 * 1000);
+  const signatureAlgorithm = der(0x30, oid(OID_ECDSA_WITH_SHA256));
+  const name = der(0x30, der(0x31, der(0x30, oid(OID_COMMON_NAME), der(0x0c, Buffer.from(commonName, 'utf8')))));
+
+  const extensions = der(0x30,
+    extension(OID_BASIC_CONSTRAINTS, der(0x30)),
+    extension(OID_SUBJECT_ALT_NAME, der(0x30, ...altNames.map(generalName))),
+    extension(OID_EXTENDED_KEY_USAGE, der(0x30, oid(OID_SERVER_AUTH)))
+  );
+
+  const tbsCertificate = der(0x30,
+    der(0xa0, integer(Buffer.from([2]))),
+    integer(crypto.randomBytes(16)),
+    signatureAlgorithm,
+    name,
+    der(0x30, time(notBefore), time(notAfter)),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    der(0xa3, extensions)
+  );
+
+  // Node默认输出DER编码的ECDSA签名，与X.509要求一致
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const certificate = der(0x30, tbsCertificate, signatureAlgorithm, der(0x03, Buffer.from([0]), signature));
+
+  return {
+    cert: toPEM('CERTIFICATE', certificate),
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string
+  };
+}
+
+/**
+ * 创建额外信任指定CA证书（PEM，例如其他智能体的自签名证书）的fetch
+ * 全局fetch不接受ca参数，HTTPS请求改用https模块发送；HTTP请求仍使用全局fetch
+ */
+export function createTrustedFetch(ca: string | string[]): FetchFunction {
+  const agent = new https.Agent({ ca: [...tls.rootCertificates, ...(Array.isArray(ca) ? ca : [ca])] });
+
+  return (url: string, init: RequestInit = {}) => {
+    const target = new URL(url);
+    if (target.protocol !== 'https:') {
+      return fetch(url, init);
+    }
+
+    return new Promise<Response>((resolve, reject) => {
+      const request = https.request(target, {
+        method: init.method || 'GET',
+        headers: Object.fromEntries(new Headers(init.headers).entries()),
+        agent
+      }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('error', reject);
+        response.on('end', () => {
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            for (const item of Array.isArray(value) ? value : value !== undefined ? [value] : []) {
+              headers.append(name, item);
+            }
+          }
+          const status = response.statusCode || 500;
+          // 204和304等状态不能带响应体
+          const body = [101, 204, 205, 304].includes(status) ? null : Buffer.concat(chunks);
+          resolve(new Response(body, { status, statusText: response.statusMessage, headers }));
+        });
+      });
+
+      request.on('error', reject);
+      if (init.body !== undefined && init.body !== null) {
+        request.write(init.body as string | Uint8Array);
+      }
+      request.end();
+    });
+  };
+}
+
+/**
+ * 编码DER元素
+ */
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  let length: Buffer;
+  if (body.length < 0x80) {
+    length = Buffer.from([body.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = body.length; n > 0; n = Math.floor(n / 256)) {
+      bytes.unshift(n & 0xff);
+    }
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+}
+
+/**
+ * 编码非负INTEGER（最高位为1时补0）
+ */
+function integer(value: Buffer): Buffer {
+  return der(0x02, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+}
+
+/**
+ * 编码OBJECT IDENTIFIER
+ */
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const chunk = [arc & 0x7f];
+    for (let n = arc >>> 7; n > 0; n >>>= 7) {
+      chunk.unshift((n & 0x7f) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/**
+ * 编码证书有效期时间：2050年前使用UTCTime，之后使用GeneralizedTime
+ */
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(iso.slice(2), 'ascii'))
+    : der(0x18, Buffer.from(iso, 'ascii'));
+}
+
+/**
+ * 编码证书扩展（非关键）
+ */
+function extension(id: string, value: Buffer): Buffer {
+  return der(0x30, oid(id), der(0x04, value));
+}
+
+/**
+ * 编码主题备用名称：IP地址为iPAddress，其余为dNSName
+ */
+function generalName(value: string): Buffer {
+  if (net.isIPv4(value)) {
+    return der(0x87, Buffer.from(value.split('.').map(Number)));
+  }
+  if (net.isIPv6(value)) {
+    return der(0x87, ipv6ToBytes(value));
+  }
+  return der(0x82, Buffer.from(value, 'ascii'));
+}
+
+/**
+ * IPv6地址转为16字节
+ */
+function ipv6ToBytes(address: string): Buffer {
+  const [head, tail] = address.split('::');
+  const parse = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill(0), ...tailGroups];
+
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, index) => bytes.writeUInt16BE(group, index * 2));
+  return bytes;
+}
+
+/**
+ * DER转为PEM
+ */
+function toPEM(label: string, der: Buffer): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}